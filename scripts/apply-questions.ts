@@ -0,0 +1,59 @@
+/**
+ * Merge a question bundle exported from the in-app authoring screen into src/data/questions,
+ * replacing edited questions by id and appending new ones to their module's file.
+ * Nothing is written if the merged bank fails the schema checks.
+ *
+ * Usage: npm run apply:questions -- <bundle.json>
+ */
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Question, QuestionBundleDocument } from '../src/types/exam.types';
+import { applyQuestionBundle, parseQuestionBundle } from '../src/utils/authoring.utils';
+import { formatQuestionBankIssue, formatQuestionFile, validateQuestionBank } from '../src/utils/questionBank.utils';
+
+const QUESTIONS_DIR = join(import.meta.dirname, '../src/data/questions');
+
+const bundlePath = process.argv[2];
+if (!bundlePath) {
+  console.error('Usage: npm run apply:questions -- <bundle.json>');
+  process.exit(1);
+}
+
+let bundle: QuestionBundleDocument;
+try {
+  bundle = parseQuestionBundle(readFileSync(bundlePath, 'utf8'));
+} catch (error) {
+  console.error(`${bundlePath}: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+const files: Record<string, Question[]> = {};
+readdirSync(QUESTIONS_DIR)
+  .filter(file => /^module-\d+\.json$/.test(file))
+  .forEach(file => {
+    files[file] = JSON.parse(readFileSync(join(QUESTIONS_DIR, file), 'utf8'));
+  });
+
+const updated = applyQuestionBundle(files, bundle);
+
+const { issues } = validateQuestionBank(updated);
+if (issues.length > 0) {
+  console.error('The merged question bank would be invalid, no files were changed:');
+  issues.forEach(issue => console.error(`  ${formatQuestionBankIssue(issue)}`));
+  process.exit(1);
+}
+
+const existingIds = new Set(Object.values(files).flat().map(q => q.id));
+Object.entries(updated).forEach(([file, questions]) => {
+  const content = formatQuestionFile(questions);
+  if (!files[file] || formatQuestionFile(files[file]) !== content) {
+    writeFileSync(join(QUESTIONS_DIR, file), content);
+    console.log(`  updated ${file}`);
+  }
+});
+
+const added = bundle.questions.filter(q => !existingIds.has(q.id)).length;
+console.log(
+  `\nApplied ${bundle.questions.length} question${bundle.questions.length === 1 ? '' : 's'}: ` +
+  `${added} added, ${bundle.questions.length - added} edited. Run npm run lint:questions to check them.`
+);
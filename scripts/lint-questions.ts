@@ -0,0 +1,63 @@
+/**
+ * Check every question in src/data/questions against the schema and the lint rules,
+ * printing a report by question id. Exits with 1 if any errors are found.
+ *
+ * Usage: npm run lint:questions [-- --no-warnings]
+ */
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { formatQuestionBankIssue, validateQuestionBank } from '../src/utils/questionBank.utils';
+import { lintQuestionBank } from '../src/utils/questionLint.utils';
+import type { LintFinding } from '../src/utils/questionLint.utils';
+
+const QUESTIONS_DIR = join(import.meta.dirname, '../src/data/questions');
+
+const showWarnings = !process.argv.includes('--no-warnings');
+
+const files: Record<string, unknown> = {};
+let unreadable = 0;
+readdirSync(QUESTIONS_DIR)
+  .filter(file => /^module-\d+\.json$/.test(file))
+  .forEach(file => {
+    try {
+      files[file] = JSON.parse(readFileSync(join(QUESTIONS_DIR, file), 'utf8'));
+    } catch (error) {
+      unreadable++;
+      console.error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+// Schema problems come first; the lint rules only run on questions that pass the schema
+const { questions, issues } = validateQuestionBank(files);
+if (issues.length > 0) {
+  console.log('Schema errors:');
+  issues.forEach(issue => console.log(`  ${formatQuestionBankIssue(issue)}`));
+  console.log();
+}
+
+const findings = lintQuestionBank(questions)
+  .filter(finding => showWarnings || finding.severity === 'error');
+
+const findingsById = new Map<number, LintFinding[]>();
+findings.forEach(finding => {
+  findingsById.set(finding.id, [...(findingsById.get(finding.id) ?? []), finding]);
+});
+
+findingsById.forEach((questionFindings, id) => {
+  const question = questions.find(q => q.id === id)!;
+  console.log(`Question ${id} (module ${question.module})`);
+  questionFindings.forEach(finding => {
+    console.log(`  ${finding.severity.padEnd(7)} ${finding.rule.padEnd(24)} ${finding.message}`);
+  });
+});
+
+const errorCount = unreadable + issues.length + findings.filter(f => f.severity === 'error').length;
+const warningCount = findings.filter(f => f.severity === 'warning').length;
+
+console.log(
+  `\n${questions.length} questions checked: ${errorCount} error${errorCount === 1 ? '' : 's'}, ` +
+  `${warningCount} warning${warningCount === 1 ? '' : 's'}` +
+  (findingsById.size > 0 ? ` in ${findingsById.size} question${findingsById.size === 1 ? '' : 's'}` : '')
+);
+
+process.exit(errorCount > 0 ? 1 : 0);
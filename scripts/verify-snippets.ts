@@ -0,0 +1,258 @@
+/**
+ * Compile and run the ```cpp snippets in question texts and compare what they print with the
+ * question's `expectedOutput`, so a wrong answer key is caught before it reaches the bank.
+ * Questions without `expectedOutput` are still compiled and run, and their output is reported.
+ *
+ * Usage: npm run verify:snippets [-- --compiler clang++] [-- --id 163]
+ * The compiler defaults to $CXX, then g++, then clang++.
+ */
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Question } from '../src/types/exam.types';
+import { formatQuestionBankIssue, validateQuestionBank } from '../src/utils/questionBank.utils';
+
+const QUESTIONS_DIR = join(import.meta.dirname, '../src/data/questions');
+const COMPILE_TIMEOUT_MS = 30000;
+const RUN_TIMEOUT_MS = 5000;
+
+/** Headers made available to fragments, which never include their own */
+const HARNESS_HEADERS = [
+  'algorithm', 'array', 'bitset', 'cmath', 'cstddef', 'cstdint', 'deque', 'forward_list', 'fstream',
+  'functional', 'iomanip', 'iostream', 'iterator', 'list', 'map', 'memory', 'numeric', 'queue',
+  'random', 'set', 'sstream', 'stack', 'string', 'tuple', 'type_traits', 'unordered_map',
+  'unordered_set', 'utility', 'vector'
+];
+
+type SnippetStatus = 'passed' | 'failed' | 'compile-error' | 'runtime-error' | 'unchecked';
+
+interface SnippetReport {
+  id: number;
+  status: SnippetStatus;
+  /** Program output, or the compiler or runtime error */
+  detail: string;
+}
+
+const getArgument = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+/**
+ * Find a working C++ compiler, preferring --compiler, then $CXX, then g++ and clang++
+ */
+const findCompiler = (): string | null => {
+  const candidates = [getArgument('--compiler'), process.env.CXX, 'g++', 'clang++']
+    .filter((c): c is string => Boolean(c));
+  return candidates.find(compiler => spawnSync(compiler, ['--version']).status === 0) ?? null;
+};
+
+/**
+ * The ```cpp blocks in a question's text, in order
+ */
+const extractSnippets = (question: Question): string[] =>
+  [...question.question.matchAll(/```cpp\n([\s\S]*?)```/g)].map(match => match[1]);
+
+const DECLARATION_START = /^\s*(#|template\b|struct\b|class\b|enum\b|union\b|namespace\b|using\b|typedef\b)/;
+const STATEMENT_KEYWORDS = /^\s*(return|if|else|for|while|do|switch|case|throw|delete|new)\b/;
+// A function definition header such as `int square(int x) {` or `void print(T value) const {`
+const FUNCTION_HEADER = /^\s*[\w:<>,*&\s]+?[\s*&]+[\w:~]+\s*\([^;=]*\)\s*(const\s*)?(noexcept\s*)?(->\s*[\w:<>*&\s]+)?\{/;
+
+/**
+ * Split a fragment into top-level chunks (complete statements or declarations, tracked by
+ * brace depth) and sort them into declarations that must live at namespace scope and
+ * statements that go inside main
+ */
+const splitFragment = (snippet: string): { declarations: string[]; statements: string[] } => {
+  const declarations: string[] = [];
+  const statements: string[] = [];
+  let chunk: string[] = [];
+  let depth = 0;
+
+  snippet.split('\n').forEach(line => {
+    chunk.push(line);
+    depth += (line.match(/\{/g) ?? []).length - (line.match(/\}/g) ?? []).length;
+
+    const trimmed = line.trim();
+    const isChunkEnd = depth === 0 &&
+      (trimmed.endsWith(';') || trimmed.endsWith('}') || trimmed.startsWith('#') || trimmed === '');
+    // A template header belongs to the declaration on the following lines
+    if (!isChunkEnd || /^template\s*<.*>$/.test(trimmed)) return;
+
+    const text = chunk.join('\n');
+    const firstLine = chunk.find(l => l.trim() !== '') ?? '';
+    const isDeclaration = DECLARATION_START.test(firstLine) ||
+      (!STATEMENT_KEYWORDS.test(firstLine) && FUNCTION_HEADER.test(text));
+    if (text.trim() !== '') {
+      (isDeclaration ? declarations : statements).push(text);
+    }
+    chunk = [];
+  });
+
+  if (chunk.join('').trim() !== '') {
+    statements.push(chunk.join('\n'));
+  }
+  return { declarations, statements };
+};
+
+/**
+ * Turn a snippet into a complete program: snippets with their own main are used as they are,
+ * fragments get the standard headers and have their statements wrapped in main
+ */
+const buildProgram = (snippet: string): string => {
+  const includes = HARNESS_HEADERS.map(header => `#include <${header}>`).join('\n');
+  if (/\bint\s+main\s*\(/.test(snippet)) {
+    return `${includes}\n\n${snippet}`;
+  }
+
+  const { declarations, statements } = splitFragment(snippet);
+  return [
+    includes,
+    '',
+    ...declarations,
+    '',
+    'int main() {',
+    ...statements.map(statement => statement.replace(/^/gm, '    ')),
+    '    return 0;',
+    '}',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Compare program output with the expected output, ignoring trailing whitespace
+ */
+const outputsMatch = (actual: string, expected: string): boolean =>
+  actual.replace(/\s+$/, '') === expected.replace(/\s+$/, '');
+
+/**
+ * The output an option claims, without the `Outputs 10` or `Outputs "0 1"` wording some options use
+ */
+const getOptionOutput = (option: string): string => {
+  const claimed = /^Outputs (.*)$/s.exec(option)?.[1];
+  return claimed === undefined ? option : claimed.replace(/^"(.*)"$/s, '$1');
+};
+
+/** A correct option like this means the snippet's output is not meaningful, whatever it printed here */
+const UNDEFINED_BEHAVIOR_OPTION = /undefined behaviou?r/i;
+
+const verifyQuestion = (question: Question, compiler: string, workDir: string): SnippetReport | null => {
+  const snippets = extractSnippets(question);
+  if (snippets.length === 0) return null;
+
+  // Questions with several blocks (e.g. a header and its use) are compiled as one program
+  const source = join(workDir, `q${question.id}.cpp`);
+  const binary = join(workDir, `q${question.id}`);
+  writeFileSync(source, buildProgram(snippets.join('\n')));
+
+  const compile = spawnSync(compiler, ['-std=c++20', '-w', '-o', binary, source], {
+    encoding: 'utf8',
+    timeout: COMPILE_TIMEOUT_MS
+  });
+  if (compile.status !== 0) {
+    const firstError = compile.stderr.split('\n').find(line => line.includes('error')) ?? compile.stderr.trim();
+    return { id: question.id, status: 'compile-error', detail: firstError };
+  }
+
+  const run = spawnSync(binary, [], { encoding: 'utf8', timeout: RUN_TIMEOUT_MS });
+  if (run.status !== 0) {
+    const reason = run.error ? run.error.message : run.signal ? `killed by ${run.signal}` : `exit code ${run.status}`;
+    return { id: question.id, status: 'runtime-error', detail: reason };
+  }
+
+  if (question.expectedOutput === undefined) {
+    return { id: question.id, status: 'unchecked', detail: run.stdout };
+  }
+  return {
+    id: question.id,
+    status: outputsMatch(run.stdout, question.expectedOutput) ? 'passed' : 'failed',
+    detail: run.stdout
+  };
+};
+
+const files: Record<string, unknown> = {};
+readdirSync(QUESTIONS_DIR)
+  .filter(file => /^module-\d+\.json$/.test(file))
+  .forEach(file => {
+    files[file] = JSON.parse(readFileSync(join(QUESTIONS_DIR, file), 'utf8'));
+  });
+
+const { questions, issues } = validateQuestionBank(files);
+if (issues.length > 0) {
+  console.error('The question bank has schema errors, run npm run lint:questions:');
+  issues.forEach(issue => console.error(`  ${formatQuestionBankIssue(issue)}`));
+  process.exit(1);
+}
+
+const compiler = findCompiler();
+if (!compiler) {
+  console.error('No C++ compiler found. Install g++ or clang++, or pass --compiler <path>.');
+  process.exit(1);
+}
+
+const onlyId = getArgument('--id');
+const selected = onlyId === undefined ? questions : questions.filter(q => q.id === parseInt(onlyId, 10));
+
+const workDir = mkdtempSync(join(tmpdir(), 'cpp-mock-exam-snippets-'));
+const reports: SnippetReport[] = [];
+try {
+  selected.forEach(question => {
+    const report = verifyQuestion(question, compiler, workDir);
+    if (report) reports.push(report);
+  });
+} finally {
+  rmSync(workDir, { recursive: true, force: true });
+}
+
+const questionsById = new Map(questions.map(q => [q.id, q]));
+const formatOutput = (output: string): string => JSON.stringify(output.replace(/\s+$/, ''));
+
+reports.forEach(report => {
+  const question = questionsById.get(report.id)!;
+  switch (report.status) {
+    case 'passed':
+      console.log(`  ok      ${report.id}`);
+      break;
+    case 'failed':
+      console.log(`  FAIL    ${report.id}: expected ${formatOutput(question.expectedOutput!)}, got ${formatOutput(report.detail)}`);
+      break;
+    case 'compile-error':
+    case 'runtime-error':
+      // Only an error if the question claims an output; otherwise the snippet may be a deliberate fragment
+      console.log(`  ${question.expectedOutput === undefined ? 'skipped' : 'FAIL   '} ${report.id}: ${report.status}: ${report.detail}`);
+      break;
+    case 'unchecked': {
+      // When the answer is "Undefined behavior", whatever this run printed says nothing about the key
+      if (question.correct.some(i => UNDEFINED_BEHAVIOR_OPTION.test(question.options[i]))) {
+        console.log(`  output  ${report.id}: ${formatOutput(report.detail)} (undefined behavior question, no expectedOutput)`);
+        break;
+      }
+      const matching = question.options
+        .map((option, i) => ({ option, i }))
+        .filter(({ option }) => outputsMatch(report.detail, getOptionOutput(option)))
+        .map(({ i }) => i);
+      const keyNote = matching.length === 0
+        ? 'matches no option'
+        : matching.some(i => question.correct.includes(i))
+          ? `matches correct option ${matching.join(', ')}`
+          : `matches option ${matching.join(', ')}, but correct is ${question.correct.join(', ')}`;
+      console.log(`  output  ${report.id}: ${formatOutput(report.detail)} (${keyNote}, no expectedOutput)`);
+      break;
+    }
+  }
+});
+
+const count = (status: SnippetStatus) => reports.filter(r => r.status === status).length;
+const failures = reports.filter(r =>
+  r.status === 'failed' ||
+  ((r.status === 'compile-error' || r.status === 'runtime-error') && questionsById.get(r.id)!.expectedOutput !== undefined)
+).length;
+
+console.log(
+  `\n${reports.length} snippets with ${compiler}: ${count('passed')} passed, ${failures} failed, ` +
+  `${count('unchecked')} without expectedOutput, ` +
+  `${count('compile-error') + count('runtime-error') - (failures - count('failed'))} could not be run`
+);
+
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle, Copy, Check, Sun, Moon } from 'lucide-react';
+import type { ExamResult } from '../types/exam.types';
+import { formatPoints, scoreAnswer } from '../utils/scoring.utils';
+import ReactMarkdown from 'react-markdown';
+import type { ExtraProps } from 'react-markdown';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { CodeTheme } from './ExamApp';
+
+/** Props react-markdown passes to a `code` renderer; `inline` is only set by older versions */
+type CodeRendererProps = React.ComponentProps<'code'> & ExtraProps & { inline?: boolean };
+
+interface AttemptReviewProps {
+  results: ExamResult;
+}
+
+/**
+ * Question-by-question breakdown of a submitted attempt, with the user's answers,
+ * the correct options and the explanation for each question
+ */
+export const AttemptReview: React.FC<AttemptReviewProps> = ({ results }) => {
+  const [copiedBlocks, setCopiedBlocks] = useState<Set<string>>(new Set());
+  const [localCodeThemes, setLocalCodeThemes] = useState<Map<string, CodeTheme>>(new Map());
+  const codeTheme: CodeTheme = 'dark';
+  const isPartialCredit = results.scoringStrategy !== undefined && results.scoringStrategy !== 'strict';
+
+  const handleCopyCode = (code: string, blockId: string) => {
+    navigator.clipboard.writeText(code).then(() => {
+      setCopiedBlocks(prev => new Set(prev).add(blockId));
+      setTimeout(() => {
+        setCopiedBlocks(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(blockId);
+          return newSet;
+        });
+      }, 2000);
+    });
+  };
+
+  const toggleBlockTheme = (blockId: string) => {
+    setLocalCodeThemes(prev => {
+      const newMap = new Map(prev);
+      const currentTheme = newMap.get(blockId) || codeTheme;
+      newMap.set(blockId, currentTheme === 'dark' ? 'light' : 'dark');
+      return newMap;
+    });
+  };
+
+  const createCodeRenderer = (questionId: number) => {
+    let codeBlockIndex = 0;
+
+    return ({ inline, children, className }: CodeRendererProps) => {
+      const languageMatch = /language-(\w+)/.exec(className || '');
+
+      if (inline || !languageMatch) {
+        return (
+          <code className="bg-gray-100 rounded px-1 py-0.5 text-sm font-mono">
+            {children}
+          </code>
+        );
+      }
+
+      const language = languageMatch[1];
+      const codeContent = String(children).replace(/\n$/, '');
+      const blockId = `q${questionId}-b${codeBlockIndex++}`;
+      const blockTheme = localCodeThemes.get(blockId) || codeTheme;
+      const codeStyle = blockTheme === 'dark' ? oneDark : oneLight;
+      const isCopied = copiedBlocks.has(blockId);
+
+      return (
+        <div className="relative text-sm font-mono my-2">
+          <div className="absolute top-2 right-2 flex gap-1 z-10 pointer-events-auto">
+            <button
+              onClick={() => toggleBlockTheme(blockId)}
+              className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white shadow-lg transition-colors"
+              title={blockTheme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme'}
+            >
+              {blockTheme === 'dark' ? <Sun size={14} /> : <Moon size={14} />}
+            </button>
+            <button
+              onClick={() => handleCopyCode(codeContent, blockId)}
+              className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white shadow-lg transition-colors"
+              title="Copy code"
+            >
+              {isCopied ? <Check size={14} /> : <Copy size={14} />}
+            </button>
+          </div>
+          <SyntaxHighlighter
+            style={codeStyle}
+            language={language}
+            PreTag="div"
+            customStyle={{ margin: 0 }}
+          >
+            {codeContent}
+          </SyntaxHighlighter>
+        </div>
+      );
+    };
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8">
+      <h2 className="text-2xl font-bold mb-6">Question Review</h2>
+      {results.questions.length === 0 && (
+        <p className="text-gray-500">No question details were saved for this attempt.</p>
+      )}
+      {results.questions.map((result, index) => {
+        const isCorrect = result.userAnswer.length === result.correctAnswer.length &&
+          result.userAnswer.every(ans => result.correctAnswer.includes(ans));
+        const points = scoreAnswer(result.userAnswer, result.correctAnswer, results.scoringStrategy);
+
+        return (
+          <div key={result.id} className="mb-6 pb-6 border-b last:border-b-0">
+            <div className="flex items-start gap-3 mb-3">
+              {isCorrect ? (
+                <CheckCircle className="text-green-600 flex-shrink-0 mt-1" size={24} />
+              ) : (
+                <XCircle className="text-red-600 flex-shrink-0 mt-1" size={24} />
+              )}
+              <div className="flex-1">
+                <div className="font-semibold text-lg mb-2">
+                  {index + 1}.{' '}
+                  <ReactMarkdown
+                    components={{
+                      code: createCodeRenderer(result.id),
+                      p: ({ children }) => <span>{children}</span>
+                    }}
+                  >
+                    {result.question}
+                  </ReactMarkdown>
+                </div>
+
+                {isPartialCredit && !isCorrect && points > 0 && (
+                  <div className="text-sm font-semibold text-yellow-700 mb-2">
+                    Partial credit: {formatPoints(points)} of 1 point
+                  </div>
+                )}
+
+                <div className="space-y-2 mb-3">
+                  {(result.displayOrder ?? result.options.map((_, i) => i)).map(i => {
+                    const option = result.options[i];
+                    const isUserAnswer = result.userAnswer.includes(i);
+                    const isCorrectAnswer = result.correctAnswer.includes(i);
+
+                    return (
+                      <div
+                        key={i}
+                        className={`p-3 rounded ${
+                          isCorrectAnswer
+                            ? 'bg-green-50 border-2 border-green-500'
+                            : isUserAnswer
+                              ? 'bg-red-50 border-2 border-red-500'
+                              : 'bg-gray-50 border border-gray-200'
+                        }`}
+                      >
+                        <div className="flex items-center gap-2">
+                          {isCorrectAnswer && <CheckCircle size={16} className="text-green-600" />}
+                          {isUserAnswer && !isCorrectAnswer && <XCircle size={16} className="text-red-600" />}
+                          <ReactMarkdown
+                            components={{
+                              code: createCodeRenderer(result.id + 2000 + i),
+                              p: ({ children }) => <span>{children}</span>
+                            }}
+                          >
+                            {option}
+                          </ReactMarkdown>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="bg-blue-50 p-3 rounded">
+                  <div className="text-sm font-semibold text-blue-900 mb-1">Explanation:</div>
+                  <div className="text-sm text-blue-800">
+                    <ReactMarkdown
+                      components={{
+                        code: createCodeRenderer(result.id + 1000),
+                        p: ({ children }) => <span>{children}</span>
+                      }}
+                    >
+                      {result.explanation}
+                    </ReactMarkdown>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AttemptReview;
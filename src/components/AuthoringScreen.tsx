@@ -0,0 +1,495 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Pencil, Plus, Trash2, X } from 'lucide-react';
+import type { Question } from '../types/exam.types';
+import { MODULE_NAMES, MODULE_TOPICS } from '../types/exam.types';
+import type { DraftCheck } from '../utils/authoring.utils';
+import { checkQuestionDraft, createBlankQuestion, getNextQuestionId, normalizeDraft } from '../utils/authoring.utils';
+import type { CodeTheme } from './ExamApp';
+import QuestionCard from './QuestionCard';
+
+interface AuthoringScreenProps {
+  questionBank: Question[];
+  drafts: Question[];
+  onSaveDraft: (draft: Question) => void;
+  onDeleteDraft: (questionId: number) => void;
+  onExport: () => void;
+  onBack: () => void;
+  codeTheme: CodeTheme;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Remove an option and shift the correct and pinned indices after it down by one
+ */
+const removeOptionIndex = (indices: number[], removed: number): number[] =>
+  indices.filter(i => i !== removed).map(i => i > removed ? i - 1 : i);
+
+const CheckMessages: React.FC<{ check: DraftCheck }> = ({ check }) => {
+  if (check.errors.length === 0 && check.warnings.length === 0) {
+    return (
+      <div className="mb-4 p-4 rounded border-l-4 bg-green-50 border-green-500 text-green-800 text-sm">
+        No problems found.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {check.errors.length > 0 && (
+        <ul className="mb-4 p-4 rounded border-l-4 bg-red-50 border-red-500 text-red-800 text-sm list-disc list-inside">
+          {check.errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      {check.warnings.length > 0 && (
+        <ul className="mb-4 p-4 rounded border-l-4 bg-yellow-50 border-yellow-500 text-yellow-800 text-sm list-disc list-inside">
+          {check.warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+    </>
+  );
+};
+
+export const AuthoringScreen: React.FC<AuthoringScreenProps> = ({
+  questionBank,
+  drafts,
+  onSaveDraft,
+  onDeleteDraft,
+  onExport,
+  onBack,
+  codeTheme
+}) => {
+  const [draft, setDraft] = useState<Question | null>(null);
+  const [bankIdInput, setBankIdInput] = useState('');
+  const [bankIdError, setBankIdError] = useState<string | null>(null);
+  const [previewAnswers, setPreviewAnswers] = useState<number[]>([]);
+  const [previewChecked, setPreviewChecked] = useState(false);
+
+  const sortedModules = Object.entries(MODULE_NAMES).sort(
+    ([a], [b]) => parseInt(a, 10) - parseInt(b, 10)
+  );
+  const bankIds = useMemo(() => new Set(questionBank.map(q => q.id)), [questionBank]);
+
+  const draftChecks = useMemo(
+    () => new Map(drafts.map(d => [d.id, checkQuestionDraft(d, questionBank, drafts)])),
+    [drafts, questionBank]
+  );
+  const draftsWithErrors = drafts.filter(d => draftChecks.get(d.id)!.errors.length > 0).length;
+
+  // The draft being edited is checked against the saved drafts with its own saved copy replaced
+  const currentCheck = useMemo(() => {
+    if (!draft) return null;
+    const otherDrafts = drafts.filter(d => d.id !== draft.id);
+    return checkQuestionDraft(draft, questionBank, [...otherDrafts, draft]);
+  }, [draft, drafts, questionBank]);
+
+  const openDraft = (question: Question) => {
+    setDraft(question);
+    setPreviewAnswers([]);
+    setPreviewChecked(false);
+  };
+
+  const updateDraft = (changes: Partial<Question>) => {
+    setDraft(prev => prev && { ...prev, ...changes });
+    setPreviewChecked(false);
+  };
+
+  const handleNewQuestion = () => {
+    openDraft(createBlankQuestion(getNextQuestionId(questionBank, drafts), 1));
+  };
+
+  const handleEditBankQuestion = () => {
+    const id = parseInt(bankIdInput, 10);
+    const existingDraft = drafts.find(d => d.id === id);
+    const bankQuestion = questionBank.find(q => q.id === id);
+    if (!existingDraft && !bankQuestion) {
+      setBankIdError(`There is no question with id ${bankIdInput}`);
+      return;
+    }
+
+    setBankIdError(null);
+    setBankIdInput('');
+    // Copied, so editing the draft never touches the loaded bank
+    openDraft(existingDraft ?? structuredClone(bankQuestion!));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSaveDraft(normalizeDraft(draft));
+    setDraft(null);
+  };
+
+  const handleModuleChange = (module: number) => {
+    if (!draft) return;
+    const moduleTopics = MODULE_TOPICS[module] ?? [];
+    updateDraft({ module, topics: (draft.topics ?? []).filter(topic => moduleTopics.includes(topic)) });
+  };
+
+  const handleTypeChange = (type: Question['type']) => {
+    if (!draft) return;
+    updateDraft({ type, correct: type === 'single' ? draft.correct.slice(0, 1) : draft.correct });
+  };
+
+  const toggleTopic = (topic: string) => {
+    if (!draft) return;
+    const topics = draft.topics ?? [];
+    updateDraft({ topics: topics.includes(topic) ? topics.filter(t => t !== topic) : [...topics, topic] });
+  };
+
+  const toggleCorrect = (index: number) => {
+    if (!draft) return;
+    if (draft.type === 'single') {
+      updateDraft({ correct: [index] });
+      return;
+    }
+    updateDraft({
+      correct: draft.correct.includes(index)
+        ? draft.correct.filter(i => i !== index)
+        : [...draft.correct, index].sort((a, b) => a - b)
+    });
+  };
+
+  const togglePinned = (index: number) => {
+    if (!draft) return;
+    const pinned = draft.pinnedOptions ?? [];
+    updateDraft({
+      pinnedOptions: pinned.includes(index)
+        ? pinned.filter(i => i !== index)
+        : [...pinned, index].sort((a, b) => a - b)
+    });
+  };
+
+  const updateOption = (index: number, text: string) => {
+    if (!draft) return;
+    updateDraft({ options: draft.options.map((option, i) => i === index ? text : option) });
+  };
+
+  const removeOption = (index: number) => {
+    if (!draft) return;
+    setPreviewAnswers([]);
+    updateDraft({
+      options: draft.options.filter((_, i) => i !== index),
+      correct: removeOptionIndex(draft.correct, index),
+      pinnedOptions: removeOptionIndex(draft.pinnedOptions ?? [], index)
+    });
+  };
+
+  const togglePreviewAnswer = (index: number) => {
+    if (!draft) return;
+    setPreviewAnswers(prev => draft.type === 'single'
+      ? [index]
+      : prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className={`${draft ? 'max-w-7xl' : 'max-w-4xl'} mx-auto`}>
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold">Question Authoring</h2>
+            <div className="flex gap-2">
+              {!draft && (
+                <>
+                  <button
+                    onClick={handleNewQuestion}
+                    className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+                  >
+                    <Plus size={16} />
+                    New Question
+                  </button>
+                  <button
+                    onClick={onExport}
+                    disabled={drafts.length === 0 || draftsWithErrors > 0}
+                    className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={draftsWithErrors > 0 ? 'Fix the drafts with errors before exporting' : undefined}
+                  >
+                    <Download size={16} />
+                    Export ({drafts.length})
+                  </button>
+                </>
+              )}
+              <button
+                onClick={onBack}
+                className="bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700"
+              >
+                Back
+              </button>
+            </div>
+          </div>
+
+          <p className="text-gray-600 mb-6">
+            Write new questions or edit copies of existing ones. Drafts are kept on this device until you discard them.
+            Export saves them as a JSON bundle; run <code className="bg-gray-100 rounded px-1 py-0.5 text-sm font-mono">npm run apply:questions -- &lt;file&gt;</code> in
+            the project to merge it into <code className="bg-gray-100 rounded px-1 py-0.5 text-sm font-mono">src/data/questions</code>.
+          </p>
+
+          {draft && currentCheck ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="border rounded-lg p-6">
+                <h3 className="text-lg font-semibold mb-4">
+                  {bankIds.has(draft.id) ? `Edit Question ${draft.id}` : `New Question ${draft.id}`}
+                </h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <label htmlFor="draft-module" className="block text-sm font-semibold text-gray-700 mb-1">Module</label>
+                    <select
+                      id="draft-module"
+                      value={draft.module}
+                      onChange={(e) => handleModuleChange(parseInt(e.target.value, 10))}
+                      className={INPUT_CLASS}
+                    >
+                      {sortedModules.map(([moduleNum, moduleName]) => (
+                        <option key={moduleNum} value={moduleNum}>Module {moduleNum}: {moduleName}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="draft-type" className="block text-sm font-semibold text-gray-700 mb-1">Type</label>
+                    <select
+                      id="draft-type"
+                      value={draft.type}
+                      onChange={(e) => handleTypeChange(e.target.value as Question['type'])}
+                      className={INPUT_CLASS}
+                    >
+                      <option value="single">Single answer</option>
+                      <option value="multiple">Multiple answers</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="mb-4">
+                  <div className="text-sm font-semibold text-gray-700 mb-2">Topics</div>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {(MODULE_TOPICS[draft.module] ?? []).map(topic => (
+                      <label key={topic} className="flex items-center gap-2 bg-gray-50 rounded px-3 py-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={(draft.topics ?? []).includes(topic)}
+                          onChange={() => toggleTopic(topic)}
+                        />
+                        {topic}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mb-4">
+                  <label htmlFor="draft-question" className="block text-sm font-semibold text-gray-700 mb-1">
+                    Question (Markdown, code in ```cpp fences)
+                  </label>
+                  <textarea
+                    id="draft-question"
+                    rows={6}
+                    value={draft.question}
+                    onChange={(e) => updateDraft({ question: e.target.value })}
+                    className={`${INPUT_CLASS} font-mono text-sm`}
+                  />
+                </div>
+
+                <div className="mb-4">
+                  <div className="text-sm font-semibold text-gray-700 mb-2">
+                    Options - tick the correct {draft.type === 'single' ? 'one' : 'ones'}; pinned options keep their position when shuffled
+                  </div>
+                  <div className="space-y-2">
+                    {draft.options.map((option, index) => (
+                      <div key={index} className="flex items-start gap-2">
+                        <input
+                          type={draft.type === 'single' ? 'radio' : 'checkbox'}
+                          name="draft-correct"
+                          checked={draft.correct.includes(index)}
+                          onChange={() => toggleCorrect(index)}
+                          className="mt-3"
+                          title="Correct"
+                        />
+                        <textarea
+                          rows={1}
+                          value={option}
+                          onChange={(e) => updateOption(index, e.target.value)}
+                          placeholder={`Option ${index + 1}`}
+                          className={`${INPUT_CLASS} font-mono text-sm`}
+                        />
+                        <label className="flex items-center gap-1 text-xs text-gray-600 mt-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={(draft.pinnedOptions ?? []).includes(index)}
+                            onChange={() => togglePinned(index)}
+                          />
+                          Pinned
+                        </label>
+                        <button
+                          onClick={() => removeOption(index)}
+                          className="p-2 text-gray-600 hover:text-red-600"
+                          title="Remove option"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => updateDraft({ options: [...draft.options, ''] })}
+                    className="mt-2 flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus size={14} />
+                    Add option
+                  </button>
+                </div>
+
+                <div className="mb-4">
+                  <label htmlFor="draft-explanation" className="block text-sm font-semibold text-gray-700 mb-1">Explanation</label>
+                  <textarea
+                    id="draft-explanation"
+                    rows={3}
+                    value={draft.explanation}
+                    onChange={(e) => updateDraft({ explanation: e.target.value })}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+
+                <div className="mb-4">
+                  <label htmlFor="draft-output" className="block text-sm font-semibold text-gray-700 mb-1">
+                    Expected output (optional)
+                  </label>
+                  <textarea
+                    id="draft-output"
+                    rows={2}
+                    value={draft.expectedOutput ?? ''}
+                    onChange={(e) => updateDraft({ expectedOutput: e.target.value })}
+                    className={`${INPUT_CLASS} font-mono text-sm`}
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    What the snippet prints, checked by npm run verify:snippets after the question is merged.
+                  </p>
+                </div>
+
+                <CheckMessages check={currentCheck} />
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSave}
+                    className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700"
+                  >
+                    Save Draft
+                  </button>
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="text-lg font-semibold">Preview</h3>
+                  <button
+                    onClick={() => {
+                      setPreviewAnswers([]);
+                      setPreviewChecked(false);
+                    }}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Reset preview
+                  </button>
+                </div>
+                <QuestionCard
+                  question={draft}
+                  userAnswers={previewAnswers.filter(i => i < draft.options.length)}
+                  onAnswerToggle={togglePreviewAnswer}
+                  onPrevious={() => {}}
+                  onNext={() => {}}
+                  onMarkReview={() => {}}
+                  isMarked={false}
+                  canGoPrevious={false}
+                  canGoNext={false}
+                  isChecked={previewChecked}
+                  onCheckAnswer={() => setPreviewChecked(true)}
+                  codeTheme={codeTheme}
+                />
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6">
+                <label htmlFor="bank-question-id" className="block text-sm font-semibold text-gray-700 mb-1">
+                  Edit an existing question
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="bank-question-id"
+                    type="number"
+                    min={1}
+                    value={bankIdInput}
+                    onChange={(e) => setBankIdInput(e.target.value)}
+                    placeholder="Question id"
+                    className={INPUT_CLASS}
+                  />
+                  <button
+                    onClick={handleEditBankQuestion}
+                    disabled={bankIdInput === ''}
+                    className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Pencil size={16} />
+                    Edit
+                  </button>
+                </div>
+                {bankIdError && <p className="text-sm text-red-600 mt-1">{bankIdError}</p>}
+              </div>
+
+              {drafts.length === 0 ? (
+                <p className="text-gray-500">No drafts yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {[...drafts].sort((a, b) => a.id - b.id).map(d => {
+                    const check = draftChecks.get(d.id)!;
+                    return (
+                      <div key={d.id} className="border rounded-lg p-4 flex justify-between items-center">
+                        <div className="min-w-0">
+                          <div className="font-semibold text-gray-800">
+                            Question {d.id} - {bankIds.has(d.id) ? 'edits the bank question' : 'new'}
+                          </div>
+                          <div className="text-sm text-gray-600 truncate">
+                            Module {d.module}: {d.question.split('\n')[0] || '(no question text)'}
+                          </div>
+                          <div className={`text-sm ${
+                            check.errors.length > 0 ? 'text-red-600' : check.warnings.length > 0 ? 'text-yellow-700' : 'text-green-600'
+                          }`}>
+                            {check.errors.length > 0
+                              ? `${check.errors.length} error${check.errors.length === 1 ? '' : 's'}`
+                              : check.warnings.length > 0
+                                ? `${check.warnings.length} warning${check.warnings.length === 1 ? '' : 's'}`
+                                : 'Ready to export'}
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => openDraft(d)}
+                            className="p-2 text-gray-600 hover:text-blue-600"
+                            title="Edit draft"
+                          >
+                            <Pencil size={16} />
+                          </button>
+                          <button
+                            onClick={() => onDeleteDraft(d.id)}
+                            className="p-2 text-gray-600 hover:text-red-600"
+                            title="Discard draft"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuthoringScreen;
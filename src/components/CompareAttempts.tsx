@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { ArrowLeft, ArrowDownRight, ArrowUpRight } from 'lucide-react';
+import type { ExamResult, QuestionFlip } from '../types/exam.types';
+import { MODULE_NAMES } from '../types/exam.types';
+import { compareAttempts, getQuestionPreview } from '../utils/analytics.utils';
+import { formatTime, getExamTypeLabel } from '../utils/exam.utils';
+import { formatPoints } from '../utils/scoring.utils';
+
+interface CompareAttemptsProps {
+  first: ExamResult;
+  second: ExamResult;
+  onBack: () => void;
+}
+
+const formatDelta = (delta: number, unit: string = ''): string =>
+  `${delta > 0 ? '+' : ''}${delta}${unit}`;
+
+const getDeltaColor = (delta: number | null): string =>
+  delta === null || delta === 0 ? 'text-gray-600' : delta > 0 ? 'text-green-600' : 'text-red-600';
+
+const AttemptSummary: React.FC<{ result: ExamResult; heading: string }> = ({ result, heading }) => (
+  <div className="border rounded-lg p-4">
+    <div className="text-sm text-gray-500">{heading}</div>
+    <div className="font-semibold">
+      {getExamTypeLabel(result.examMode, result.selectedModule, result.selectedTopic, result.presetName)}
+    </div>
+    <div className="text-sm text-gray-600">{new Date(result.timestamp).toLocaleString()}</div>
+    <div className="text-3xl font-bold text-blue-600 mt-2">{result.percentage}%</div>
+    <div className="text-sm text-gray-600">
+      {formatPoints(result.score)}/{result.total} correct
+      {result.timeSpentSeconds !== undefined && ` in ${formatTime(result.timeSpentSeconds)}`}
+    </div>
+    {result.note && <div className="text-sm text-gray-600 italic mt-1">{result.note}</div>}
+  </div>
+);
+
+const FlipList: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  flips: QuestionFlip[];
+  className: string;
+}> = ({ title, icon, flips, className }) => (
+  <div className="border rounded-lg p-4">
+    <h3 className={`flex items-center gap-1 font-semibold mb-2 ${className}`}>
+      {icon}
+      {title} ({flips.length})
+    </h3>
+    {flips.length === 0 ? (
+      <p className="text-sm text-gray-500">None</p>
+    ) : (
+      <ul className="space-y-1 text-sm">
+        {flips.map(flip => (
+          <li key={flip.id}>
+            <span className="font-mono text-gray-500 mr-2">#{flip.id}</span>
+            {getQuestionPreview(flip.question, 90)}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const CompareAttempts: React.FC<CompareAttemptsProps> = ({ first, second, onBack }) => {
+  const comparison = useMemo(() => compareAttempts(first, second), [first, second]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold">Compare Attempts</h2>
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700"
+            >
+              <ArrowLeft size={16} />
+              Back to History
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+            <AttemptSummary result={comparison.before} heading="Earlier attempt" />
+            <div className="text-center">
+              <div className={`text-4xl font-bold ${getDeltaColor(comparison.percentageDelta)}`}>
+                {formatDelta(comparison.percentageDelta, ' pts')}
+              </div>
+              <div className="text-gray-600">Overall change</div>
+              {comparison.timeDelta !== null && (
+                <div className="text-sm text-gray-600 mt-2">
+                  Time spent {comparison.timeDelta === 0
+                    ? 'unchanged'
+                    : `${comparison.timeDelta > 0 ? '+' : '-'}${formatTime(Math.abs(comparison.timeDelta))}`}
+                </div>
+              )}
+            </div>
+            <AttemptSummary result={comparison.after} heading="Later attempt" />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h3 className="text-xl font-bold mb-4">Performance by Module</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-4 font-semibold">Module</th>
+                <th className="py-2 pr-4 font-semibold">Earlier</th>
+                <th className="py-2 pr-4 font-semibold">Later</th>
+                <th className="py-2 font-semibold">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.moduleComparisons.map(row => (
+                <tr key={row.module} className="border-b last:border-b-0">
+                  <td className="py-2 pr-4">Module {row.module}: {MODULE_NAMES[row.module]}</td>
+                  <td className="py-2 pr-4">{row.before ? `${formatPoints(row.before.correct)}/${row.before.total}` : '—'}</td>
+                  <td className="py-2 pr-4">{row.after ? `${formatPoints(row.after.correct)}/${row.after.total}` : '—'}</td>
+                  <td className={`py-2 font-semibold ${getDeltaColor(row.delta)}`}>
+                    {row.delta === null ? '—' : formatDelta(row.delta, ' pts')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-1">Questions That Changed</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            {comparison.sharedQuestions} question{comparison.sharedQuestions === 1 ? '' : 's'} appeared in both attempts.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FlipList
+              title="Wrong → Right"
+              icon={<ArrowUpRight size={16} />}
+              flips={comparison.improved}
+              className="text-green-700"
+            />
+            <FlipList
+              title="Right → Wrong"
+              icon={<ArrowDownRight size={16} />}
+              flips={comparison.regressed}
+              className="text-red-700"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareAttempts;
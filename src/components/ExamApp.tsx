@@ -1,26 +1,41 @@
 import React from 'react';
 import { QuestionBank } from '../data/questionBank';
+import { DEFAULT_EXAM_BLUEPRINT } from '../types/exam.types';
+import { getDueQuestionCount } from '../utils/review.utils';
+import { getIncorrectQuestionIds, getTopicQuestionCounts } from '../utils/exam.utils';
 import { useExamState } from '../hooks/useExamState';
 import { WelcomeScreen } from './WelcomeScreen';
 import HistoryScreen from './HistoryScreen';
+import SettingsScreen from './SettingsScreen';
+import AuthoringScreen from './AuthoringScreen';
 import { ExamScreen } from './ExamScreen';
 import ResultsScreen from './ResultsScreen';
 
 export type CodeTheme = 'light' | 'dark';
 
 const ExamApp: React.FC = () => {
-  const { state, actions } = useExamState(QuestionBank);
+  const { state, actions } = useExamState(QuestionBank, DEFAULT_EXAM_BLUEPRINT);
   const codeTheme: CodeTheme = 'dark'; // Default theme for code blocks
 
   const handleExitExam = () => {
-    actions.setExamStarted(false);
-    actions.setExamSubmitted(false);
-    actions.setResults(null);
+    actions.exitExam();
   };
 
   const handleRetakeExam = () => {
-    // Retake the same exam type (full or module) with the same module if applicable
-    actions.startNewExam(state.examMode, state.selectedModule);
+    if (state.examMode === 'retry' && state.results) {
+      // Retaking a retry re-asks the same set of questions
+      actions.startRetryExam(state.results.questions.map(q => q.id));
+      return;
+    }
+
+    // Retake the same exam type with the same module, topic or preset if applicable
+    actions.startNewExam(state.examMode, state.selectedModule, undefined, state.selectedTopic, state.presetId);
+  };
+
+  const handleRetryIncorrect = () => {
+    if (state.results) {
+      actions.startRetryExam(getIncorrectQuestionIds(state.results));
+    }
   };
 
   // History Screen (check this first - can be shown from welcome or results)
@@ -28,8 +43,42 @@ const ExamApp: React.FC = () => {
     return (
       <HistoryScreen
         resultsHistory={state.resultsHistory}
+        migrationReport={state.migrationReport}
+        questionBank={QuestionBank}
         onBack={() => actions.setShowHistory(false)}
         onClearHistory={actions.clearHistory}
+        onDeleteResult={actions.deleteResult}
+        onAnnotateResult={actions.annotateResult}
+        onExportHistory={actions.exportHistory}
+        onImportHistory={actions.importHistory}
+      />
+    );
+  }
+
+  // Settings Screen
+  if (state.showSettings && !state.examStarted) {
+    return (
+      <SettingsScreen
+        presets={state.presets}
+        questionBank={QuestionBank}
+        onSavePreset={actions.savePreset}
+        onDeletePreset={actions.deletePreset}
+        onBack={() => actions.setShowSettings(false)}
+      />
+    );
+  }
+
+  // Authoring Screen
+  if (state.showAuthoring && !state.examStarted) {
+    return (
+      <AuthoringScreen
+        questionBank={QuestionBank}
+        drafts={state.questionDrafts}
+        onSaveDraft={actions.saveQuestionDraft}
+        onDeleteDraft={actions.deleteQuestionDraft}
+        onExport={actions.exportQuestionDrafts}
+        onBack={() => actions.setShowAuthoring(false)}
+        codeTheme={codeTheme}
       />
     );
   }
@@ -40,7 +89,16 @@ const ExamApp: React.FC = () => {
       <WelcomeScreen
         onStartExam={actions.startNewExam}
         onShowHistory={() => actions.setShowHistory(true)}
+        onShowSettings={() => actions.setShowSettings(true)}
+        onShowAuthoring={() => actions.setShowAuthoring(true)}
         hasHistory={state.resultsHistory.length > 0}
+        dueReviewCount={getDueQuestionCount(QuestionBank, state.reviewDeck)}
+        blueprint={DEFAULT_EXAM_BLUEPRINT}
+        topicQuestionCounts={getTopicQuestionCounts(QuestionBank)}
+        savedSession={state.savedSession}
+        presets={state.presets}
+        onResumeExam={actions.resumeExam}
+        onDiscardSession={actions.discardSavedSession}
       />
     );
   }
@@ -53,6 +111,7 @@ const ExamApp: React.FC = () => {
         results={state.results}
         resultsHistory={state.resultsHistory}
         onRetakeExam={handleRetakeExam}
+        onRetryIncorrect={handleRetryIncorrect}
         onBackToHome={handleExitExam}
         onShowHistory={() => actions.setShowHistory(true)}
       />
@@ -63,13 +122,18 @@ const ExamApp: React.FC = () => {
   return (
     <ExamScreen
       examQuestions={state.examQuestions}
+      optionOrders={state.optionOrders}
       currentQuestion={state.currentQuestion}
       selectedAnswers={state.selectedAnswers}
       markedForReview={state.markedForReview}
+      checkedQuestions={state.checkedQuestions}
+      examMode={state.examMode}
       timeRemaining={state.timeRemaining}
+      elapsedSeconds={state.elapsedSeconds}
       onSetCurrentQuestion={actions.setCurrentQuestion}
       onToggleAnswer={actions.toggleAnswer}
       onToggleMarkReview={actions.toggleMarkReview}
+      onCheckAnswer={actions.checkAnswer}
       onSubmit={actions.submitExam}
       onExitExam={handleExitExam}
       codeTheme={codeTheme}
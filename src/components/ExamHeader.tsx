@@ -1,6 +1,7 @@
 import React from 'react';
-import { Clock, CheckCircle, Home } from 'lucide-react';
+import { Clock, CheckCircle, Gauge, Home, Target } from 'lucide-react';
 import { formatTime } from '../utils/exam.utils';
+import type { PaceStatus } from '../types/exam.types';
 import { MODULE_NAMES } from '../types/exam.types';
 
 interface ExamHeaderProps {
@@ -8,6 +9,10 @@ interface ExamHeaderProps {
   totalQuestions: number;
   moduleNumber: number;
   timeRemaining: number;
+  /** Running score in practice mode, which replaces the timer */
+  practiceScore: { correct: number; checked: number } | null;
+  /** Progress against the per-question time budget in timed exams */
+  pace: PaceStatus | null;
   onSubmit: () => void;
   onExitExam: () => void;
 }
@@ -17,6 +22,8 @@ export const ExamHeader: React.FC<ExamHeaderProps> = ({
   totalQuestions,
   moduleNumber,
   timeRemaining,
+  practiceScore,
+  pace,
   onSubmit,
   onExitExam
 }) => {
@@ -48,14 +55,38 @@ export const ExamHeader: React.FC<ExamHeaderProps> = ({
               </div>
             </div>
 
-            <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${
-              isLowTime ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'
-            }`}>
-              <Clock size={18} />
-              <span className="font-mono font-bold text-lg">
-                {formatTime(timeRemaining)}
-              </span>
-            </div>
+            {pace && (
+              <div
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ${
+                  pace.isBehind ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-700'
+                }`}
+                title="Answered questions compared with an even split of the exam time"
+              >
+                <Gauge size={16} />
+                {pace.isBehind ? `Behind pace by ${formatTime(-pace.offsetSeconds)}` : 'On pace'}
+              </div>
+            )}
+
+            {practiceScore ? (
+              <div
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-100 text-green-700"
+                title="Correct answers out of questions checked so far"
+              >
+                <Target size={18} />
+                <span className="font-mono font-bold text-lg">
+                  {practiceScore.correct}/{practiceScore.checked}
+                </span>
+              </div>
+            ) : (
+              <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${
+                isLowTime ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'
+              }`}>
+                <Clock size={18} />
+                <span className="font-mono font-bold text-lg">
+                  {formatTime(timeRemaining)}
+                </span>
+              </div>
+            )}
 
             <button
               onClick={handleExitExam}
@@ -70,7 +101,7 @@ export const ExamHeader: React.FC<ExamHeaderProps> = ({
               className="flex items-center gap-2 bg-green-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-green-700 transition"
             >
               <CheckCircle size={18} />
-              Submit Exam
+              {practiceScore ? 'Finish Practice' : 'Submit Exam'}
             </button>
           </div>
         </div>
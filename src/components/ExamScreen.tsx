@@ -1,5 +1,6 @@
 import React from 'react';
-import type { Question, SelectedAnswers } from '../types/exam.types';
+import type { ExamMode, OptionOrders, Question, SelectedAnswers } from '../types/exam.types';
+import { getAnsweredCount, getPaceStatus, getPracticeScore, hasInstantFeedback } from '../utils/exam.utils';
 import { ExamHeader } from './ExamHeader';
 import { QuestionNavigator } from './QuestionNavigator';
 import { QuestionCard } from './QuestionCard';
@@ -7,13 +8,18 @@ import type { CodeTheme } from './ExamApp';
 
 interface ExamScreenProps {
   examQuestions: Question[];
+  optionOrders: OptionOrders;
   currentQuestion: number;
   selectedAnswers: SelectedAnswers;
   markedForReview: Set<number>;
+  checkedQuestions: Set<number>;
+  examMode: ExamMode;
   timeRemaining: number;
+  elapsedSeconds: number;
   onSetCurrentQuestion: (index: number) => void;
   onToggleAnswer: (index: number) => void;
   onToggleMarkReview: () => void;
+  onCheckAnswer: () => void;
   onSubmit: () => void;
   onExitExam: () => void;
   codeTheme: CodeTheme;
@@ -21,13 +27,18 @@ interface ExamScreenProps {
 
 export const ExamScreen: React.FC<ExamScreenProps> = ({
   examQuestions,
+  optionOrders,
   currentQuestion,
   selectedAnswers,
   markedForReview,
+  checkedQuestions,
+  examMode,
   timeRemaining,
+  elapsedSeconds,
   onSetCurrentQuestion,
   onToggleAnswer,
   onToggleMarkReview,
+  onCheckAnswer,
   onSubmit,
   onExitExam,
   codeTheme
@@ -44,6 +55,7 @@ export const ExamScreen: React.FC<ExamScreenProps> = ({
 
   const question = examQuestions[currentQuestion];
   const userAnswers = selectedAnswers[question.id] || [];
+  const isPractice = hasInstantFeedback(examMode);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -52,6 +64,13 @@ export const ExamScreen: React.FC<ExamScreenProps> = ({
         totalQuestions={examQuestions.length}
         moduleNumber={question.module}
         timeRemaining={timeRemaining}
+        practiceScore={isPractice ? getPracticeScore(examQuestions, selectedAnswers, checkedQuestions) : null}
+        pace={isPractice ? null : getPaceStatus(
+          getAnsweredCount(selectedAnswers),
+          examQuestions.length,
+          elapsedSeconds,
+          timeRemaining
+        )}
         onSubmit={onSubmit}
         onExitExam={onExitExam}
       />
@@ -67,6 +86,7 @@ export const ExamScreen: React.FC<ExamScreenProps> = ({
 
         <QuestionCard
           question={question}
+          optionOrder={optionOrders[question.id]}
           userAnswers={userAnswers}
           onAnswerToggle={onToggleAnswer}
           onPrevious={() => onSetCurrentQuestion(Math.max(0, currentQuestion - 1))}
@@ -75,6 +95,8 @@ export const ExamScreen: React.FC<ExamScreenProps> = ({
           isMarked={markedForReview.has(currentQuestion)}
           canGoPrevious={currentQuestion > 0}
           canGoNext={currentQuestion < examQuestions.length - 1}
+          isChecked={checkedQuestions.has(question.id)}
+          onCheckAnswer={isPractice ? onCheckAnswer : undefined}
           codeTheme={codeTheme}
         />
       </div>
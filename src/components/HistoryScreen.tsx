@@ -1,12 +1,24 @@
-import React, { useState, useMemo } from 'react';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
-import type { ExamResult } from '../types/exam.types';
+import React, { useState, useMemo, useRef } from 'react';
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, Eye, GitCompare, Trash2, Upload } from 'lucide-react';
+import type { ExamResult, HistoryImportSummary, MigrationReport, Question, ResultAnnotations } from '../types/exam.types';
 import { MODULE_NAMES } from '../types/exam.types';
+import { getExamTypeKey, getExamTypeLabel, isPassingScore } from '../utils/exam.utils';
+import { getCountedResults } from '../utils/analytics.utils';
+import { formatPoints } from '../utils/scoring.utils';
+import { AttemptReview } from './AttemptReview';
+import { CompareAttempts } from './CompareAttempts';
+import { QuestionAnalytics } from './QuestionAnalytics';
 
 interface HistoryScreenProps {
   resultsHistory: ExamResult[];
+  migrationReport: MigrationReport | null;
+  questionBank: Question[];
   onBack: () => void;
   onClearHistory: () => void;
+  onDeleteResult: (timestamp: string) => void;
+  onAnnotateResult: (timestamp: string, annotations: ResultAnnotations) => void;
+  onExportHistory: () => Promise<void>;
+  onImportHistory: (file: File) => Promise<HistoryImportSummary>;
 }
 
 interface ExamTypeGroup {
@@ -17,12 +29,102 @@ interface ExamTypeGroup {
 
 const RESULTS_PER_PAGE = 10;
 
+/**
+ * One attempt in a group's attempt list, with its note, exclusion toggle and delete action
+ */
+const AttemptRow: React.FC<{
+  result: ExamResult;
+  attemptNumber: number;
+  isSelected: boolean;
+  onToggleSelect: (timestamp: string) => void;
+  onReview: (timestamp: string) => void;
+  onDelete: (timestamp: string) => void;
+  onAnnotate: (timestamp: string, annotations: ResultAnnotations) => void;
+}> = ({ result, attemptNumber, isSelected, onToggleSelect, onReview, onDelete, onAnnotate }) => {
+  const [note, setNote] = useState(result.note ?? '');
+
+  const saveNote = () => {
+    const trimmed = note.trim();
+    if (trimmed !== (result.note ?? '')) {
+      onAnnotate(result.timestamp, { note: trimmed || undefined });
+    }
+  };
+
+  return (
+    <tr className={`border-b last:border-b-0 ${result.excludedFromStats ? 'text-gray-400' : ''}`}>
+      <td className="py-2 pr-2">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => onToggleSelect(result.timestamp)}
+          title="Select for comparison"
+        />
+      </td>
+      <td className="py-2 pr-4 font-mono">#{attemptNumber}</td>
+      <td className="py-2 pr-4 whitespace-nowrap">{new Date(result.timestamp).toLocaleString()}</td>
+      <td className="py-2 pr-4 whitespace-nowrap">{result.percentage}% ({formatPoints(result.score)}/{result.total})</td>
+      <td className="py-2 pr-4 w-full">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={saveNote}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          placeholder="Add a note"
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </td>
+      <td className="py-2 pr-4 whitespace-nowrap">
+        <label className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={result.excludedFromStats ?? false}
+            onChange={(e) => onAnnotate(result.timestamp, { excludedFromStats: e.target.checked || undefined })}
+          />
+          Exclude
+        </label>
+      </td>
+      <td className="py-2 whitespace-nowrap">
+        <button
+          onClick={() => onReview(result.timestamp)}
+          className="p-1 text-gray-500 hover:text-blue-600"
+          title="Review this attempt"
+        >
+          <Eye size={16} />
+        </button>
+        <button
+          onClick={() => onDelete(result.timestamp)}
+          className="p-1 text-gray-500 hover:text-red-600"
+          title="Delete this attempt"
+        >
+          <Trash2 size={16} />
+        </button>
+      </td>
+    </tr>
+  );
+};
+
 const ResultsGraph: React.FC<{
   results: ExamResult[];
   label: string;
   pageOffset: number;
   onPageChange: (offset: number) => void;
-}> = ({ results, label, pageOffset, onPageChange }) => {
+  selectedTimestamps: string[];
+  onToggleSelect: (timestamp: string) => void;
+  onReviewResult: (timestamp: string) => void;
+  onDeleteResult: (timestamp: string) => void;
+  onAnnotateResult: (timestamp: string, annotations: ResultAnnotations) => void;
+}> = ({
+  results,
+  label,
+  pageOffset,
+  onPageChange,
+  selectedTimestamps,
+  onToggleSelect,
+  onReviewResult,
+  onDeleteResult,
+  onAnnotateResult
+}) => {
   // Get the results for the current page (reverse chronological, then show oldest to newest on graph)
   const reversedResults = [...results].reverse(); // Newest first
   const startIndex = pageOffset;
@@ -32,6 +134,19 @@ const ResultsGraph: React.FC<{
   const canGoPrevious = startIndex > 0;
   const canGoNext = endIndex < results.length;
 
+  // Excluded attempts stay on the graph but are left out of the line and the stats
+  const countedResults = getCountedResults(results);
+  const countedPageResults = getCountedResults(pageResults);
+  const getX = (result: ExamResult) =>
+    pageResults.length === 1 ? 50 : (pageResults.indexOf(result) / (pageResults.length - 1)) * 100;
+  const passedCount = countedResults.filter(r => isPassingScore(r.percentage, r)).length;
+
+  // Each attempt is coloured by its own pass mark; the line shows the latest one shown,
+  // since a preset's pass mark can change between attempts
+  const passLine = pageResults.length > 0
+    ? pageResults[pageResults.length - 1].passingPercentage
+    : null;
+
   if (results.length === 0) {
     return (
       <div className="border rounded-lg p-6 bg-white">
@@ -91,18 +206,23 @@ const ResultsGraph: React.FC<{
                 style={{ bottom: `${value}%` }}
               />
             ))}
-            {/* Pass line at 70% */}
-            <div className="absolute w-full border-t-2 border-green-300" style={{ bottom: '70%' }} />
+            {passLine !== null && (
+              <div
+                className="absolute w-full border-t-2 border-green-300"
+                style={{ bottom: `${passLine}%` }}
+                title={`Pass mark ${passLine}%`}
+              />
+            )}
           </div>
 
           {/* Data points and line */}
           <div className="absolute inset-0">
             <svg className="w-full h-full" preserveAspectRatio="none">
               {/* Line connecting points */}
-              {pageResults.length > 1 && (
+              {countedPageResults.length > 1 && (
                 <polyline
-                  points={pageResults.map((result, i) => {
-                    const x = (i / (pageResults.length - 1)) * 100;
+                  points={countedPageResults.map(result => {
+                    const x = getX(result);
                     const y = 100 - result.percentage;
                     return `${x}%,${y}%`;
                   }).join(' ')}
@@ -115,9 +235,10 @@ const ResultsGraph: React.FC<{
             </svg>
 
             {/* Data points */}
-            {pageResults.map((result, i) => {
-              const x = pageResults.length === 1 ? 50 : (i / (pageResults.length - 1)) * 100;
-              const passed = result.percentage >= 70;
+            {pageResults.map(result => {
+              const x = getX(result);
+              const passed = isPassingScore(result.percentage, result);
+              const pointColor = result.excludedFromStats ? 'bg-gray-300' : passed ? 'bg-green-500' : 'bg-red-500';
 
               return (
                 <div
@@ -129,14 +250,19 @@ const ResultsGraph: React.FC<{
                     transform: 'translate(-50%, 50%)'
                   }}
                 >
-                  <div className={`w-3 h-3 rounded-full ${passed ? 'bg-green-500' : 'bg-red-500'} border-2 border-white shadow-md cursor-pointer hover:scale-150 transition-transform`} />
+                  <div
+                    onClick={() => onReviewResult(result.timestamp)}
+                    className={`w-3 h-3 rounded-full ${pointColor} border-2 border-white shadow-md cursor-pointer hover:scale-150 transition-transform`}
+                  />
 
                   {/* Tooltip */}
                   <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
                     <div className="bg-gray-900 text-white text-xs rounded px-2 py-1 whitespace-nowrap">
                       <div className="font-semibold">{result.percentage}%</div>
-                      <div className="text-gray-300">{result.score}/{result.total}</div>
+                      <div className="text-gray-300">{formatPoints(result.score)}/{result.total}</div>
                       <div className="text-gray-400">{new Date(result.timestamp).toLocaleDateString()}</div>
+                      {result.note && <div className="text-gray-300 italic">{result.note}</div>}
+                      {result.excludedFromStats && <div className="text-yellow-300">Excluded from stats</div>}
                     </div>
                   </div>
                 </div>
@@ -156,45 +282,108 @@ const ResultsGraph: React.FC<{
       </div>
 
       {/* Stats */}
-      <div className="mt-8 grid grid-cols-3 gap-4 text-center">
+      <div className="mt-8 grid grid-cols-4 gap-4 text-center">
         <div className="bg-blue-50 p-3 rounded">
           <div className="text-2xl font-bold text-blue-600">{results.length}</div>
           <div className="text-xs text-gray-600">Total Attempts</div>
         </div>
         <div className="bg-green-50 p-3 rounded">
           <div className="text-2xl font-bold text-green-600">
-            {Math.round(results.reduce((sum, r) => sum + r.percentage, 0) / results.length)}%
+            {countedResults.length > 0
+              ? `${Math.round(countedResults.reduce((sum, r) => sum + r.percentage, 0) / countedResults.length)}%`
+              : '—'}
           </div>
           <div className="text-xs text-gray-600">Average Score</div>
         </div>
         <div className="bg-purple-50 p-3 rounded">
           <div className="text-2xl font-bold text-purple-600">
-            {Math.max(...results.map(r => r.percentage))}%
+            {countedResults.length > 0 ? `${Math.max(...countedResults.map(r => r.percentage))}%` : '—'}
           </div>
           <div className="text-xs text-gray-600">Best Score</div>
         </div>
+        <div className="bg-yellow-50 p-3 rounded">
+          <div className="text-2xl font-bold text-yellow-600">
+            {countedResults.length > 0 ? `${passedCount}/${countedResults.length}` : '—'}
+          </div>
+          <div className="text-xs text-gray-600">Passed</div>
+        </div>
+      </div>
+
+      {/* Attempts on this page, newest first */}
+      <div className="mt-6 overflow-x-auto">
+        <table className="w-full text-sm">
+          <tbody>
+            {[...pageResults].reverse().map(result => (
+              <AttemptRow
+                key={result.timestamp}
+                result={result}
+                attemptNumber={results.length - reversedResults.indexOf(result)}
+                isSelected={selectedTimestamps.includes(result.timestamp)}
+                onToggleSelect={onToggleSelect}
+                onReview={onReviewResult}
+                onDelete={onDeleteResult}
+                onAnnotate={onAnnotateResult}
+              />
+            ))}
+          </tbody>
+        </table>
       </div>
     </div>
   );
 };
 
+type HistoryView = 'graphs' | 'questions';
+
 export const HistoryScreen: React.FC<HistoryScreenProps> = ({
   resultsHistory,
+  migrationReport,
+  questionBank,
   onBack,
-  onClearHistory
+  onClearHistory,
+  onDeleteResult,
+  onAnnotateResult,
+  onExportHistory,
+  onImportHistory
 }) => {
   const [pageOffsets, setPageOffsets] = useState<Record<string, number>>({});
+  const [view, setView] = useState<HistoryView>('graphs');
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [reviewing, setReviewing] = useState<{ groupKey: string; timestamp: string } | null>(null);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so selecting the same file again still triggers a change
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const summary = await onImportHistory(file);
+      setImportMessage({
+        text: `Imported ${summary.added} new result${summary.added === 1 ? '' : 's'}` +
+          (summary.duplicates > 0 ? `, skipped ${summary.duplicates} already in your history.` : '.'),
+        isError: false
+      });
+    } catch (error) {
+      setImportMessage({
+        text: `Import failed: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true
+      });
+    }
+  };
 
   // Filter and group results by exam type
-  const validHistory = resultsHistory.filter(r =>
+  const validHistory = useMemo(() => resultsHistory.filter(r =>
     r && typeof r.score === 'number' && typeof r.total === 'number' && r.timestamp
-  );
+  ), [resultsHistory]);
 
   const examGroups = useMemo(() => {
     const groups: ExamTypeGroup[] = [];
 
     // Group by exam type
-    const fullExamResults = validHistory.filter(r => r.examMode === 'full' || r.examMode === undefined);
+    const fullExamResults = validHistory.filter(r => r.examMode === 'full' && !r.presetId);
     if (fullExamResults.length > 0) {
       groups.push({
         label: 'Full Mock Exam',
@@ -203,10 +392,36 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
       });
     }
 
+    // Group the other session types
+    (['practice', 'review', 'retry'] as const).forEach(examMode => {
+      const modeResults = validHistory.filter(r => r.examMode === examMode);
+      if (modeResults.length > 0) {
+        groups.push({
+          label: getExamTypeLabel(examMode),
+          results: modeResults.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+          key: examMode
+        });
+      }
+    });
+
+    // Group topic drills by topic
+    const drilledTopics = [...new Set(
+      validHistory.filter(r => r.examMode === 'topic' && r.selectedTopic).map(r => r.selectedTopic!)
+    )].sort();
+    drilledTopics.forEach(topic => {
+      groups.push({
+        label: getExamTypeLabel('topic', null, topic),
+        results: validHistory
+          .filter(r => r.examMode === 'topic' && r.selectedTopic === topic)
+          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+        key: `topic-${topic}`
+      });
+    });
+
     // Group by module
     for (let moduleNum = 1; moduleNum <= 9; moduleNum++) {
       const moduleResults = validHistory.filter(
-        r => r.examMode === 'module' && r.selectedModule === moduleNum
+        r => r.examMode === 'module' && r.selectedModule === moduleNum && !r.presetId
       );
       if (moduleResults.length > 0) {
         groups.push({
@@ -217,6 +432,26 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
       }
     }
 
+    // Group custom preset attempts by preset and exam type
+    const presetGroups = new Map<string, ExamTypeGroup>();
+    validHistory.filter(r => r.presetId).forEach(r => {
+      const key = getExamTypeKey(r.examMode, r.selectedModule, r.selectedTopic, r.presetId);
+      if (!presetGroups.has(key)) {
+        presetGroups.set(key, {
+          label: getExamTypeLabel(r.examMode, r.selectedModule, r.selectedTopic, r.presetName ?? 'Custom preset'),
+          results: [],
+          key
+        });
+      }
+      presetGroups.get(key)!.results.push(r);
+    });
+    [...presetGroups.values()]
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .forEach(group => {
+        group.results.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        groups.push(group);
+      });
+
     return groups;
   }, [validHistory]);
 
@@ -227,13 +462,148 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
     }));
   };
 
+  // Keep at most two attempts selected, dropping the earliest selection
+  const toggleCompareSelection = (timestamp: string) => {
+    setCompareSelection(prev =>
+      prev.includes(timestamp)
+        ? prev.filter(t => t !== timestamp)
+        : [...prev, timestamp].slice(-2)
+    );
+  };
+
+  const comparedResults = compareSelection
+    .map(timestamp => validHistory.find(r => r.timestamp === timestamp))
+    .filter((r): r is ExamResult => r !== undefined);
+
+  if (comparing && comparedResults.length === 2) {
+    return (
+      <CompareAttempts
+        first={comparedResults[0]}
+        second={comparedResults[1]}
+        onBack={() => setComparing(false)}
+      />
+    );
+  }
+
+  // Full review of a single attempt, stepping through the other attempts in its group
+  const reviewGroup = reviewing ? examGroups.find(group => group.key === reviewing.groupKey) : undefined;
+  const reviewIndex = reviewGroup ? reviewGroup.results.findIndex(r => r.timestamp === reviewing!.timestamp) : -1;
+
+  if (reviewGroup && reviewIndex !== -1) {
+    const reviewedResult = reviewGroup.results[reviewIndex];
+    const goToAttempt = (index: number) =>
+      setReviewing({ groupKey: reviewGroup.key, timestamp: reviewGroup.results[index].timestamp });
+
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-6xl mx-auto">
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <button
+                onClick={() => setReviewing(null)}
+                className="flex items-center gap-2 bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700"
+              >
+                <ArrowLeft size={16} />
+                Back to History
+              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => goToAttempt(reviewIndex - 1)}
+                  disabled={reviewIndex === 0}
+                  className="flex items-center gap-1 px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-30 disabled:cursor-not-allowed transition"
+                >
+                  <ChevronLeft size={16} />
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600 min-w-[100px] text-center">
+                  Attempt {reviewIndex + 1} of {reviewGroup.results.length}
+                </span>
+                <button
+                  onClick={() => goToAttempt(reviewIndex + 1)}
+                  disabled={reviewIndex === reviewGroup.results.length - 1}
+                  className="flex items-center gap-1 px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-30 disabled:cursor-not-allowed transition"
+                >
+                  Next
+                  <ChevronRight size={16} />
+                </button>
+              </div>
+            </div>
+
+            <h2 className="text-2xl font-bold">{reviewGroup.label}</h2>
+            <div className="flex flex-wrap items-center gap-4 mt-2 text-gray-700">
+              <span>{new Date(reviewedResult.timestamp).toLocaleString()}</span>
+              <span className="font-semibold">
+                {formatPoints(reviewedResult.score)}/{reviewedResult.total} ({reviewedResult.percentage}%)
+              </span>
+              <span className={`font-bold ${isPassingScore(reviewedResult.percentage, reviewedResult) ? 'text-green-600' : 'text-red-600'}`}>
+                {isPassingScore(reviewedResult.percentage, reviewedResult) ? 'PASSED' : 'FAILED'}
+              </span>
+              {reviewedResult.excludedFromStats && (
+                <span className="text-sm text-gray-500">Excluded from statistics</span>
+              )}
+            </div>
+            {reviewedResult.note && <p className="mt-2 text-gray-600 italic">{reviewedResult.note}</p>}
+          </div>
+
+          <AttemptReview key={reviewedResult.timestamp} results={reviewedResult} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="max-w-7xl mx-auto">
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-bold">Exam History - Performance Over Time</h2>
+            <h2 className="text-2xl font-bold">
+              Exam History - {view === 'graphs' ? 'Performance Over Time' : 'Question Analytics'}
+            </h2>
             <div className="flex gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex items-center gap-2 bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300"
+                title="Merge results from an exported history file"
+              >
+                <Upload size={16} />
+                Import
+              </button>
+              {validHistory.length > 0 && (
+                <button
+                  onClick={onExportHistory}
+                  className="flex items-center gap-2 bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300"
+                  title="Download your history as a JSON file"
+                >
+                  <Download size={16} />
+                  Export
+                </button>
+              )}
+              {compareSelection.length > 0 && (
+                <button
+                  onClick={() => setComparing(true)}
+                  disabled={comparedResults.length !== 2}
+                  className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Select two attempts to compare"
+                >
+                  <GitCompare size={16} />
+                  Compare ({comparedResults.length}/2)
+                </button>
+              )}
+              {validHistory.length > 0 && (
+                <button
+                  onClick={() => setView(view === 'graphs' ? 'questions' : 'graphs')}
+                  className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+                >
+                  {view === 'graphs' ? 'Question Analytics' : 'Performance Over Time'}
+                </button>
+              )}
               {validHistory.length > 0 && (
                 <button
                   onClick={onClearHistory}
@@ -251,7 +621,35 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
             </div>
           </div>
 
-          {examGroups.length === 0 ? (
+          {migrationReport && migrationReport.failed.length > 0 && (
+            <div className="mb-6 p-4 rounded border-l-4 bg-yellow-50 border-yellow-500 text-yellow-900">
+              <p className="font-semibold">
+                {migrationReport.failed.length} saved result{migrationReport.failed.length === 1 ? '' : 's'} could
+                not be upgraded from an older format and {migrationReport.failed.length === 1 ? 'is' : 'are'} not shown.
+                {migrationReport.migrated > 0 && ` ${migrationReport.migrated} other results were upgraded successfully.`}
+              </p>
+              <ul className="mt-2 text-sm list-disc list-inside">
+                {migrationReport.failed.map(failure => (
+                  <li key={failure.index}>
+                    Result {failure.index + 1}
+                    {failure.timestamp && ` (${failure.timestamp})`}: {failure.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {importMessage && (
+            <div className={`mb-6 p-4 rounded border-l-4 ${
+              importMessage.isError ? 'bg-red-50 border-red-500 text-red-800' : 'bg-green-50 border-green-500 text-green-800'
+            }`}>
+              {importMessage.text}
+            </div>
+          )}
+
+          {view === 'questions' && validHistory.length > 0 ? (
+            <QuestionAnalytics resultsHistory={getCountedResults(validHistory)} questionBank={questionBank} />
+          ) : examGroups.length === 0 ? (
             <div className="text-center py-12 text-gray-500">
               <p className="text-lg">No exam history yet.</p>
               <p className="text-sm mt-2">Complete and submit an exam to see your progress here.</p>
@@ -265,6 +663,11 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
                   label={group.label}
                   pageOffset={pageOffsets[group.key] || 0}
                   onPageChange={(offset) => handlePageChange(group.key, offset)}
+                  selectedTimestamps={compareSelection}
+                  onToggleSelect={toggleCompareSelection}
+                  onReviewResult={(timestamp) => setReviewing({ groupKey: group.key, timestamp })}
+                  onDeleteResult={onDeleteResult}
+                  onAnnotateResult={onAnnotateResult}
                 />
               ))}
             </div>
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import type { ExamResult } from '../types/exam.types';
+import { MODULE_NAMES } from '../types/exam.types';
+import { getPacingReport, getQuestionPreview } from '../utils/analytics.utils';
+import { formatTime } from '../utils/exam.utils';
+
+interface PacingReportProps {
+  results: ExamResult;
+}
+
+export const PacingReport: React.FC<PacingReportProps> = ({ results }) => {
+  const report = useMemo(() => getPacingReport(results), [results]);
+
+  if (!report) {
+    return null;
+  }
+
+  const longestModule = Math.max(...report.byModule.map(m => m.seconds), 1);
+  // Even split of the attempt's own time limit; untimed sessions have no budget to compare with
+  const secondsPerQuestion = results.durationSeconds !== undefined && results.questions.length > 0
+    ? results.durationSeconds / results.questions.length
+    : null;
+
+  return (
+    <>
+      <h2 className="text-xl font-bold mt-8 mb-4">Pacing</h2>
+      <p className="text-gray-700 mb-4">
+        {formatTime(report.totalSeconds)} on questions, an average of{' '}
+        <span className={secondsPerQuestion !== null && report.averageSeconds > secondsPerQuestion ? 'text-red-600 font-semibold' : 'font-semibold'}>
+          {formatTime(report.averageSeconds)}
+        </span>{' '}
+        per question{secondsPerQuestion !== null && ` (budget ${formatTime(Math.round(secondsPerQuestion))})`}.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="border rounded-lg p-4">
+          <h3 className="font-semibold text-gray-700 mb-3">Slowest Questions</h3>
+          <ul className="space-y-2 text-sm">
+            {report.slowest.map((question, index) => (
+              <li key={question.id} className="flex items-start gap-2">
+                {question.isCorrect
+                  ? <CheckCircle size={16} className="text-green-600 flex-shrink-0 mt-0.5" />
+                  : <XCircle size={16} className="text-red-600 flex-shrink-0 mt-0.5" />}
+                <span className="flex-1 text-gray-700">
+                  {index + 1}. {getQuestionPreview(question.question, 80)}
+                </span>
+                <span className="font-mono text-gray-600">{formatTime(question.seconds)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="border rounded-lg p-4">
+          <h3 className="font-semibold text-gray-700 mb-3">Time by Module</h3>
+          <div className="space-y-2 text-sm">
+            {report.byModule.map(module => (
+              <div key={module.module}>
+                <div className="flex justify-between mb-1">
+                  <span className="text-gray-700">Module {module.module}: {MODULE_NAMES[module.module]}</span>
+                  <span className="font-mono text-gray-600">
+                    {formatTime(module.seconds)} ({formatTime(Math.round(module.seconds / module.questions))}/q)
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="h-2 rounded-full bg-blue-500"
+                    style={{ width: `${(module.seconds / longestModule) * 100}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default PacingReport;
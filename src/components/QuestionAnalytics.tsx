@@ -0,0 +1,160 @@
+import React, { useState, useMemo } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import type { ExamResult, Question, QuestionStats } from '../types/exam.types';
+import { EXAM_CONSTANTS, MODULE_NAMES } from '../types/exam.types';
+import { aggregateQuestionStats, getQuestionPreview } from '../utils/analytics.utils';
+
+interface QuestionAnalyticsProps {
+  resultsHistory: ExamResult[];
+  questionBank: Question[];
+}
+
+type SortKey = 'id' | 'module' | 'timesSeen' | 'timesCorrect' | 'accuracy' | 'lastSeen';
+
+const getAccuracy = (stats: QuestionStats): number => stats.timesCorrect / stats.timesSeen;
+
+const compareStats = (a: QuestionStats, b: QuestionStats, sortKey: SortKey): number => {
+  switch (sortKey) {
+    case 'accuracy':
+      return getAccuracy(a) - getAccuracy(b);
+    case 'lastSeen':
+      return new Date(a.lastSeen).getTime() - new Date(b.lastSeen).getTime();
+    case 'module':
+      return (a.module ?? 0) - (b.module ?? 0);
+    default:
+      return a[sortKey] - b[sortKey];
+  }
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'module', label: 'Module' },
+  { key: 'timesSeen', label: 'Seen' },
+  { key: 'timesCorrect', label: 'Correct' },
+  { key: 'accuracy', label: 'Accuracy' },
+  { key: 'lastSeen', label: 'Last Seen' }
+];
+
+export const QuestionAnalytics: React.FC<QuestionAnalyticsProps> = ({
+  resultsHistory,
+  questionBank
+}) => {
+  const [moduleFilter, setModuleFilter] = useState<string>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('accuracy');
+  const [sortAscending, setSortAscending] = useState(true);
+
+  const questionStats = useMemo(
+    () => aggregateQuestionStats(resultsHistory, questionBank),
+    [resultsHistory, questionBank]
+  );
+
+  const visibleStats = useMemo(() => {
+    const filtered = moduleFilter === 'all'
+      ? questionStats
+      : questionStats.filter(stats => stats.module === parseInt(moduleFilter, 10));
+
+    return [...filtered].sort((a, b) => {
+      const order = compareStats(a, b, sortKey) || a.id - b.id;
+      return sortAscending ? order : -order;
+    });
+  }, [questionStats, moduleFilter, sortKey, sortAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  // Sort module entries numerically so options appear as Module 1 .. Module 9
+  const sortedModuleEntries = Object.entries(MODULE_NAMES).sort(
+    ([a], [b]) => parseInt(a, 10) - parseInt(b, 10)
+  );
+
+  if (questionStats.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p className="text-lg">No question data yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg p-6 bg-white">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">Question Analytics</h3>
+        <div className="flex items-center gap-2">
+          <label htmlFor="analytics-module" className="text-sm text-gray-600">Module:</label>
+          <select
+            id="analytics-module"
+            value={moduleFilter}
+            onChange={(e) => setModuleFilter(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All Modules</option>
+            {sortedModuleEntries.map(([moduleNum, moduleName]) => (
+              <option key={moduleNum} value={moduleNum}>
+                Module {moduleNum}: {moduleName}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-600">
+              {COLUMNS.slice(0, 2).map(column => (
+                <th key={column.key} className="py-2 pr-4">
+                  <button onClick={() => handleSort(column.key)} className="flex items-center gap-1 font-semibold">
+                    {column.label}
+                    {sortKey === column.key && (sortAscending ? <ArrowUp size={14} /> : <ArrowDown size={14} />)}
+                  </button>
+                </th>
+              ))}
+              <th className="py-2 pr-4 font-semibold">Question</th>
+              {COLUMNS.slice(2).map(column => (
+                <th key={column.key} className="py-2 pr-4">
+                  <button onClick={() => handleSort(column.key)} className="flex items-center gap-1 font-semibold">
+                    {column.label}
+                    {sortKey === column.key && (sortAscending ? <ArrowUp size={14} /> : <ArrowDown size={14} />)}
+                  </button>
+                </th>
+              ))}
+              <th className="py-2 font-semibold">Most Common Wrong Answer</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleStats.map(stats => {
+              const accuracy = Math.round(getAccuracy(stats) * 100);
+
+              return (
+                <tr key={stats.id} className="border-b last:border-b-0 align-top">
+                  <td className="py-2 pr-4 font-mono">{stats.id}</td>
+                  <td className="py-2 pr-4">{stats.module ?? '—'}</td>
+                  <td className="py-2 pr-4 text-gray-700">{getQuestionPreview(stats.question)}</td>
+                  <td className="py-2 pr-4">{stats.timesSeen}</td>
+                  <td className="py-2 pr-4">{stats.timesCorrect}</td>
+                  <td className={`py-2 pr-4 font-semibold ${accuracy >= EXAM_CONSTANTS.PASSING_PERCENTAGE ? 'text-green-600' : 'text-red-600'}`}>
+                    {accuracy}%
+                  </td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{new Date(stats.lastSeen).toLocaleDateString()}</td>
+                  <td className="py-2 text-gray-700">
+                    {stats.mostCommonWrongOption
+                      ? `${getQuestionPreview(stats.mostCommonWrongOption, 60)} (${stats.mostCommonWrongCount}×)`
+                      : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionAnalytics;
@@ -1,13 +1,20 @@
 import React, { useState } from 'react';
-import { ChevronLeft, ChevronRight, Flag, Copy, Check, Sun, Moon } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Flag, Copy, Check, Sun, Moon, CheckCircle, XCircle, Eye } from 'lucide-react';
 import type { Question } from '../types/exam.types';
 import ReactMarkdown from 'react-markdown';
+import type { ExtraProps } from 'react-markdown';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import type { CodeTheme } from './ExamApp';
+import { isAnswerCorrect } from '../utils/exam.utils';
+
+/** Props react-markdown passes to a `code` renderer; `inline` is only set by older versions */
+type CodeRendererProps = React.ComponentProps<'code'> & ExtraProps & { inline?: boolean };
 
 interface QuestionCardProps {
   question: Question;
+  /** Canonical option indices in the order to show them; authored order if omitted */
+  optionOrder?: number[];
   userAnswers: number[];
   onAnswerToggle: (index: number) => void;
   onPrevious: () => void;
@@ -16,11 +23,16 @@ interface QuestionCardProps {
   isMarked: boolean;
   canGoPrevious: boolean;
   canGoNext: boolean;
+  /** Practice mode: the answer has been checked and the question is locked */
+  isChecked?: boolean;
+  /** Practice mode: reveal correctness and the explanation for this question */
+  onCheckAnswer?: () => void;
   codeTheme: CodeTheme;
 }
 
 export const QuestionCard: React.FC<QuestionCardProps> = ({
   question,
+  optionOrder,
   userAnswers,
   onAnswerToggle,
   onPrevious,
@@ -29,9 +41,12 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
   isMarked,
   canGoPrevious,
   canGoNext,
+  isChecked = false,
+  onCheckAnswer,
   codeTheme
 }) => {
   const isSingleChoice = question.type === 'single';
+  const isAnsweredCorrectly = isAnswerCorrect(userAnswers, question.correct);
   const [copiedBlocks, setCopiedBlocks] = useState<Set<number>>(new Set());
   const [localCodeThemes, setLocalCodeThemes] = useState<Map<number, CodeTheme>>(new Map());
 
@@ -59,62 +74,69 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
 
   let codeBlockIndex = 0;
 
-  return (
-    <div className="bg-white rounded-lg shadow-lg p-8">
-      <div className="mb-6">
-        <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-          <ReactMarkdown
-            components={{
-              code(codeProps: any) {
-                const { inline, children, className } = codeProps;
-                const languageMatch = /language-(\w+)/.exec(className || '');
+  /**
+   * Highlighted code block with theme and copy buttons, or inline code
+   * Inside an option, the buttons must not also toggle the option
+   */
+  const renderCode = ({ inline, children, className }: CodeRendererProps, isInOption: boolean = false) => {
+    const languageMatch = /language-(\w+)/.exec(className || '');
 
-                if (inline || !languageMatch) {
-                  return (
-                    <code className="bg-gray-100 rounded px-1 py-0.5 text-sm font-mono">
-                      {children}
-                    </code>
-                  );
-                }
+    if (inline || !languageMatch) {
+      return (
+        <code className="bg-gray-100 rounded px-1 py-0.5 text-sm font-mono">
+          {children}
+        </code>
+      );
+    }
 
-                const language = languageMatch[1];
-                const codeContent = String(children).replace(/\n$/, '');
-                const currentBlockIndex = codeBlockIndex++;
-                const blockTheme = localCodeThemes.get(currentBlockIndex) || codeTheme;
-                const codeStyle = blockTheme === 'dark' ? oneDark : oneLight;
-                const isCopied = copiedBlocks.has(currentBlockIndex);
+    const language = languageMatch[1];
+    const codeContent = String(children).replace(/\n$/, '');
+    const currentBlockIndex = codeBlockIndex++;
+    const blockTheme = localCodeThemes.get(currentBlockIndex) || codeTheme;
+    const codeStyle = blockTheme === 'dark' ? oneDark : oneLight;
+    const isCopied = copiedBlocks.has(currentBlockIndex);
 
-                return (
-                  <div className="relative text-sm font-mono my-2">
-                    <div className="absolute top-2 right-2 flex gap-1 z-10 pointer-events-auto">
-                      <button
-                        onClick={() => toggleBlockTheme(currentBlockIndex)}
-                        className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white shadow-lg transition-colors"
-                        title={blockTheme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme'}
-                      >
-                        {blockTheme === 'dark' ? <Sun size={14} /> : <Moon size={14} />}
-                      </button>
-                      <button
-                        onClick={() => handleCopyCode(codeContent, currentBlockIndex)}
-                        className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white shadow-lg transition-colors"
-                        title="Copy code"
-                      >
-                        {isCopied ? <Check size={14} /> : <Copy size={14} />}
-                      </button>
-                    </div>
-                    <SyntaxHighlighter
-                      style={codeStyle}
-                      language={language}
-                      PreTag="div"
-                      customStyle={{ margin: 0 }}
-                    >
-                      {codeContent}
-                    </SyntaxHighlighter>
-                  </div>
-                );
-              }
+    return (
+      <div className="relative text-sm font-mono my-2">
+        <div className="absolute top-2 right-2 flex gap-1 z-10 pointer-events-auto">
+          <button
+            onClick={(e) => {
+              if (isInOption) e.stopPropagation();
+              toggleBlockTheme(currentBlockIndex);
+            }}
+            className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white shadow-lg transition-colors"
+            title={blockTheme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme'}
+          >
+            {blockTheme === 'dark' ? <Sun size={14} /> : <Moon size={14} />}
+          </button>
+          <button
+            onClick={(e) => {
+              if (isInOption) e.stopPropagation();
+              handleCopyCode(codeContent, currentBlockIndex);
             }}
+            className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white shadow-lg transition-colors"
+            title="Copy code"
           >
+            {isCopied ? <Check size={14} /> : <Copy size={14} />}
+          </button>
+        </div>
+        <SyntaxHighlighter
+          style={codeStyle}
+          language={language}
+          PreTag="div"
+          customStyle={{ margin: 0 }}
+        >
+          {codeContent}
+        </SyntaxHighlighter>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+          <ReactMarkdown components={{ code: (codeProps) => renderCode(codeProps) }}>
             {question.question}
           </ReactMarkdown>
         </h2>
@@ -131,18 +153,27 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
       </div>
 
       <div className="space-y-3">
-        {question.options.map((option, index) => {
+        {(optionOrder ?? question.options.map((_, i) => i)).map(index => {
+          // Answers are recorded by canonical index, whatever position the option is shown in
+          const option = question.options[index];
           const isSelected = userAnswers.includes(index);
           const maxSelections = question.correct.length;
           const isLimitReached = !isSingleChoice && userAnswers.length >= maxSelections && !isSelected;
+          const isCorrectOption = question.correct.includes(index);
 
           return (
             <button
               key={index}
               onClick={() => onAnswerToggle(index)}
-              disabled={isLimitReached}
+              disabled={isLimitReached || isChecked}
               className={`w-full text-left p-4 rounded-lg border-2 transition ${
-                isSelected
+                isChecked
+                  ? isCorrectOption
+                    ? 'border-green-500 bg-green-50 cursor-default'
+                    : isSelected
+                    ? 'border-red-500 bg-red-50 cursor-default'
+                    : 'border-gray-200 bg-gray-50 cursor-default'
+                  : isSelected
                   ? 'border-blue-500 bg-blue-50'
                   : isLimitReached
                   ? 'border-gray-200 bg-gray-50 opacity-50 cursor-not-allowed'
@@ -171,60 +202,7 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
                   <ReactMarkdown
                     components={{
                       p: ({ children }) => <span>{children}</span>,
-                      code(codeProps: any) {
-                        const { inline, children, className } = codeProps;
-                        const languageMatch = /language-(\w+)/.exec(className || '');
-
-                        if (inline || !languageMatch) {
-                          return (
-                            <code className="bg-gray-100 rounded px-1 py-0.5 text-sm font-mono">
-                              {children}
-                            </code>
-                          );
-                        }
-
-                        const language = languageMatch[1];
-                        const codeContent = String(children).replace(/\n$/, '');
-                        const currentBlockIndex = codeBlockIndex++;
-                        const blockTheme = localCodeThemes.get(currentBlockIndex) || codeTheme;
-                        const codeStyle = blockTheme === 'dark' ? oneDark : oneLight;
-                        const isCopied = copiedBlocks.has(currentBlockIndex);
-
-                        return (
-                          <div className="relative text-sm font-mono my-2">
-                            <div className="absolute top-2 right-2 flex gap-1 z-10 pointer-events-auto">
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  toggleBlockTheme(currentBlockIndex);
-                                }}
-                                className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white shadow-lg transition-colors"
-                                title={blockTheme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme'}
-                              >
-                                {blockTheme === 'dark' ? <Sun size={14} /> : <Moon size={14} />}
-                              </button>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleCopyCode(codeContent, currentBlockIndex);
-                                }}
-                                className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white shadow-lg transition-colors"
-                                title="Copy code"
-                              >
-                                {isCopied ? <Check size={14} /> : <Copy size={14} />}
-                              </button>
-                            </div>
-                            <SyntaxHighlighter
-                              style={codeStyle}
-                              language={language}
-                              PreTag="div"
-                              customStyle={{ margin: 0 }}
-                            >
-                              {codeContent}
-                            </SyntaxHighlighter>
-                          </div>
-                        );
-                      }
+                      code: (codeProps) => renderCode(codeProps, true)
                     }}
                   >
                     {option}
@@ -236,6 +214,24 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
         })}
       </div>
 
+      {isChecked && (
+        <div className={`mt-6 p-4 rounded-lg border-l-4 ${
+          isAnsweredCorrectly ? 'bg-green-50 border-green-500' : 'bg-red-50 border-red-500'
+        }`}>
+          <div className={`flex items-center gap-2 font-semibold mb-2 ${
+            isAnsweredCorrectly ? 'text-green-700' : 'text-red-700'
+          }`}>
+            {isAnsweredCorrectly ? <CheckCircle size={20} /> : <XCircle size={20} />}
+            {isAnsweredCorrectly ? 'Correct' : 'Incorrect'}
+          </div>
+          <div className="text-gray-800">
+            <ReactMarkdown components={{ code: (codeProps) => renderCode(codeProps) }}>
+              {question.explanation}
+            </ReactMarkdown>
+          </div>
+        </div>
+      )}
+
       <div className="mt-8 flex justify-between">
         <button
           onClick={onPrevious}
@@ -258,6 +254,17 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
           {isMarked ? 'Marked' : 'Mark for Review'}
         </button>
 
+        {onCheckAnswer && (
+          <button
+            onClick={onCheckAnswer}
+            disabled={isChecked || userAnswers.length === 0}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Eye size={20} />
+            {isChecked ? 'Checked' : 'Check Answer'}
+          </button>
+        )}
+
         <button
           onClick={onNext}
           disabled={!canGoNext}
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import type { ExamPreset, Question, ScoringStrategy } from '../types/exam.types';
+import { EXAM_CONSTANTS, MODULE_NAMES, SCORING_STRATEGY_LABELS } from '../types/exam.types';
+import { createPresetId, validateExamPreset } from '../utils/preset.utils';
+
+interface SettingsScreenProps {
+  presets: ExamPreset[];
+  questionBank: Question[];
+  onSavePreset: (preset: ExamPreset) => void;
+  onDeletePreset: (presetId: string) => void;
+  onBack: () => void;
+}
+
+/**
+ * A new preset starts from the standard exam settings
+ */
+const createDraftPreset = (): ExamPreset => ({
+  id: createPresetId(),
+  name: '',
+  questionCount: EXAM_CONSTANTS.TOTAL_QUESTIONS,
+  durationMinutes: EXAM_CONSTANTS.DURATION_MINUTES,
+  passingPercentage: EXAM_CONSTANTS.PASSING_PERCENTAGE,
+  moduleQuestionCount: EXAM_CONSTANTS.MODULE_QUESTIONS,
+  modules: Object.keys(MODULE_NAMES).map(module => parseInt(module, 10)),
+  scoringStrategy: 'strict'
+});
+
+const NumberField: React.FC<{
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}> = ({ id, label, value, onChange }) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-semibold text-gray-700 mb-1">{label}</label>
+    <input
+      id={id}
+      type="number"
+      min={0}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  </div>
+);
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  presets,
+  questionBank,
+  onSavePreset,
+  onDeletePreset,
+  onBack
+}) => {
+  const [draft, setDraft] = useState<ExamPreset | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const sortedModules = Object.entries(MODULE_NAMES).sort(
+    ([a], [b]) => parseInt(a, 10) - parseInt(b, 10)
+  );
+
+  const updateDraft = (changes: Partial<ExamPreset>) => {
+    setDraft(prev => prev && { ...prev, ...changes });
+  };
+
+  const toggleModule = (module: number) => {
+    if (!draft) return;
+    updateDraft({
+      modules: draft.modules.includes(module)
+        ? draft.modules.filter(m => m !== module)
+        : [...draft.modules, module].sort((a, b) => a - b)
+    });
+  };
+
+  const handleEdit = (preset: ExamPreset | null) => {
+    setDraft(preset ? { ...preset } : createDraftPreset());
+    setErrors([]);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    const preset = { ...draft, name: draft.name.trim() };
+    const problems = validateExamPreset(preset, questionBank);
+    setErrors(problems);
+    if (problems.length === 0) {
+      onSavePreset(preset);
+      setDraft(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold">Settings - Exam Presets</h2>
+            <div className="flex gap-2">
+              {!draft && (
+                <button
+                  onClick={() => handleEdit(null)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+                >
+                  <Plus size={16} />
+                  New Preset
+                </button>
+              )}
+              <button
+                onClick={onBack}
+                className="bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700"
+              >
+                Back
+              </button>
+            </div>
+          </div>
+
+          <p className="text-gray-600 mb-6">
+            Presets replace the standard {EXAM_CONSTANTS.TOTAL_QUESTIONS} question, {EXAM_CONSTANTS.DURATION_MINUTES} minute
+            exam with your own settings. They appear under "Custom Preset" in the exam type list, and their attempts are
+            grouped separately in the history.
+          </p>
+
+          {draft ? (
+            <div className="border rounded-lg p-6">
+              <h3 className="text-lg font-semibold mb-4">
+                {presets.some(p => p.id === draft.id) ? 'Edit Preset' : 'New Preset'}
+              </h3>
+
+              <div className="mb-4">
+                <label htmlFor="preset-name" className="block text-sm font-semibold text-gray-700 mb-1">Name</label>
+                <input
+                  id="preset-name"
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  placeholder="e.g. Sorting sprint"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <NumberField
+                  id="preset-questions"
+                  label="Full exam questions"
+                  value={draft.questionCount}
+                  onChange={(questionCount) => updateDraft({ questionCount })}
+                />
+                <NumberField
+                  id="preset-duration"
+                  label="Full exam duration (minutes)"
+                  value={draft.durationMinutes}
+                  onChange={(durationMinutes) => updateDraft({ durationMinutes })}
+                />
+                <NumberField
+                  id="preset-passing"
+                  label="Passing percentage"
+                  value={draft.passingPercentage}
+                  onChange={(passingPercentage) => updateDraft({ passingPercentage })}
+                />
+                <NumberField
+                  id="preset-module-questions"
+                  label="Module quiz questions"
+                  value={draft.moduleQuestionCount}
+                  onChange={(moduleQuestionCount) => updateDraft({ moduleQuestionCount })}
+                />
+              </div>
+
+              <div className="mb-4">
+                <label htmlFor="preset-scoring" className="block text-sm font-semibold text-gray-700 mb-1">
+                  Scoring of multiple-answer questions
+                </label>
+                <select
+                  id="preset-scoring"
+                  value={draft.scoringStrategy ?? 'strict'}
+                  onChange={(e) => updateDraft({ scoringStrategy: e.target.value as ScoringStrategy })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(SCORING_STRATEGY_LABELS) as ScoringStrategy[]).map(strategy => (
+                    <option key={strategy} value={strategy}>{SCORING_STRATEGY_LABELS[strategy]}</option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-500 mt-1">
+                  Strict matches the real exam. Partial credit gives a share of the point for each correct option picked.
+                </p>
+              </div>
+
+              <div className="mb-4">
+                <div className="text-sm font-semibold text-gray-700 mb-2">Modules</div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                  {sortedModules.map(([moduleNum, moduleName]) => {
+                    const module = parseInt(moduleNum, 10);
+                    return (
+                      <label key={moduleNum} className="flex items-center gap-2 bg-gray-50 rounded px-3 py-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={draft.modules.includes(module)}
+                          onChange={() => toggleModule(module)}
+                        />
+                        <span className="truncate" title={moduleName}>Module {moduleNum}: {moduleName}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="mb-4 p-4 rounded border-l-4 bg-red-50 border-red-500 text-red-800 text-sm list-disc list-inside">
+                  {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700"
+                >
+                  Save Preset
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : presets.length === 0 ? (
+            <p className="text-gray-500">No presets yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {presets.map(preset => (
+                <div key={preset.id} className="border rounded-lg p-4 flex justify-between items-center">
+                  <div>
+                    <div className="font-semibold text-gray-800">{preset.name}</div>
+                    <div className="text-sm text-gray-600">
+                      {preset.questionCount} questions in {preset.durationMinutes} minutes,
+                      pass mark {preset.passingPercentage}%, module quizzes of {preset.moduleQuestionCount} questions
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      Modules {preset.modules.join(', ')} - {SCORING_STRATEGY_LABELS[preset.scoringStrategy ?? 'strict']} scoring
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleEdit(preset)}
+                      className="p-2 text-gray-600 hover:text-blue-600"
+                      title="Edit preset"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => onDeletePreset(preset.id)}
+                      className="p-2 text-gray-600 hover:text-red-600"
+                      title="Delete preset"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsScreen;
@@ -1,38 +1,108 @@
 import React, { useState } from 'react';
-import { History } from 'lucide-react';
-import { EXAM_CONSTANTS, MODULE_NAMES, MODULE_TOPICS } from '../types/exam.types';
-import type { ExamMode } from '../types/exam.types';
+import { FilePen, History, PlayCircle, Repeat, Settings } from 'lucide-react';
+import { EXAM_CONSTANTS, MODULE_NAMES, MODULE_TOPICS, SCORING_STRATEGY_LABELS } from '../types/exam.types';
+import type { ExamBlueprint, ExamMode, ExamPreset, ExamSession } from '../types/exam.types';
+import { formatTime, getAnsweredCount, getBlueprintTotal, getExamTypeLabel, hasInstantFeedback } from '../utils/exam.utils';
+import { getPresetBlueprint, getPresetModuleDuration } from '../utils/preset.utils';
 
 interface WelcomeScreenProps {
-  onStartExam: (examMode: ExamMode, moduleNumber: number | null) => void;
+  onStartExam: (
+    examMode: ExamMode,
+    moduleNumber: number | null,
+    seed?: string,
+    topic?: string | null,
+    presetId?: string | null
+  ) => void;
   onShowHistory: () => void;
+  onShowSettings: () => void;
+  onShowAuthoring: () => void;
   hasHistory: boolean;
+  dueReviewCount: number;
+  blueprint: ExamBlueprint;
+  /** Questions available per topic, used to offer topic drills */
+  topicQuestionCounts: Record<string, number>;
+  savedSession: ExamSession | null;
+  presets: ExamPreset[];
+  onResumeExam: () => void;
+  onDiscardSession: () => void;
 }
 
 export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
   onStartExam,
   onShowHistory,
-  hasHistory
+  onShowSettings,
+  onShowAuthoring,
+  hasHistory,
+  dueReviewCount,
+  blueprint,
+  topicQuestionCounts,
+  savedSession,
+  presets,
+  onResumeExam,
+  onDiscardSession
 }) => {
-  const [selectedExamType, setSelectedExamType] = useState<string>('full');
+  // A shared exam link (?exam=module-3&seed=abc123) preselects the exam type and paper seed
+  const [sharedParams] = useState(() => new URLSearchParams(window.location.search));
+  const [selectedExamType, setSelectedExamType] = useState<string>(() => {
+    const sharedExamType = sharedParams.get('exam');
+    const isKnownModule = sharedExamType?.startsWith('module-') &&
+      MODULE_NAMES[parseInt(sharedExamType.replace('module-', ''))] !== undefined;
+    const isKnownTopic = sharedExamType?.startsWith('topic-') &&
+      topicQuestionCounts[sharedExamType.replace('topic-', '')] > 0;
+    return (isKnownModule || isKnownTopic || sharedExamType === 'practice') && sharedExamType
+      ? sharedExamType
+      : 'full';
+  });
+  const [seed, setSeed] = useState<string>(() => sharedParams.get('seed') ?? '');
+
+  // Preset exams are selected as preset:<id> (full exam) or preset:<id>:module-<n>
+  const [presetId, presetExamType] = selectedExamType.startsWith('preset:')
+    ? [selectedExamType.split(':')[1], selectedExamType.split(':')[2] ?? 'full']
+    : [null, selectedExamType];
+  const activePreset = presets.find(p => p.id === presetId) ?? null;
 
   const handleStartExam = () => {
-    if (selectedExamType === 'full') {
-      onStartExam('full', null);
+    // Leave the seed undefined when blank so a fresh one is generated
+    const examSeed = seed.trim() || undefined;
+
+    if (activePreset) {
+      if (presetExamType === 'full') {
+        onStartExam('full', null, examSeed, null, activePreset.id);
+      } else {
+        onStartExam('module', parseInt(presetExamType.replace('module-', '')), examSeed, null, activePreset.id);
+      }
+    } else if (selectedExamType === 'full') {
+      onStartExam('full', null, examSeed);
+    } else if (selectedExamType === 'practice') {
+      onStartExam('practice', null, examSeed);
+    } else if (selectedExamType.startsWith('topic-')) {
+      onStartExam('topic', null, examSeed, selectedExamType.replace('topic-', ''));
     } else {
       const moduleNumber = parseInt(selectedExamType.replace('module-', ''));
-      onStartExam('module', moduleNumber);
+      onStartExam('module', moduleNumber, examSeed);
     }
   };
 
-  const isModuleExam = selectedExamType.startsWith('module-');
-  const selectedModuleNumber = isModuleExam ? parseInt(selectedExamType.replace('module-', '')) : null;
+  const isModuleExam = presetExamType.startsWith('module-');
+  const isPractice = presetExamType === 'practice';
+  const selectedTopic = presetExamType.startsWith('topic-') ? presetExamType.replace('topic-', '') : null;
+  const selectedModuleNumber = isModuleExam ? parseInt(presetExamType.replace('module-', '')) : null;
 
   // Sort module entries numerically so options appear as Module 1 .. Module 9
   const sortedModuleEntries = Object.entries(MODULE_NAMES).sort(
     ([a], [b]) => parseInt(a, 10) - parseInt(b, 10)
   );
 
+  // The selected preset, if any, overrides the standard exam settings
+  const examBlueprint = activePreset ? getPresetBlueprint(activePreset, blueprint) : blueprint;
+  const blueprintTotal = getBlueprintTotal(examBlueprint);
+  const durationMinutes = activePreset ? activePreset.durationMinutes : EXAM_CONSTANTS.DURATION_MINUTES;
+  const passingPercentage = activePreset ? activePreset.passingPercentage : EXAM_CONSTANTS.PASSING_PERCENTAGE;
+  const moduleQuestionCount = activePreset ? activePreset.moduleQuestionCount : EXAM_CONSTANTS.MODULE_QUESTIONS;
+  const moduleDurationMinutes = activePreset
+    ? Math.round(getPresetModuleDuration(activePreset) / 60)
+    : EXAM_CONSTANTS.MODULE_DURATION_MINUTES;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-8">
       <div className="max-w-4xl mx-auto">
@@ -40,6 +110,35 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
           <h1 className="text-4xl font-bold text-gray-800 mb-4">C++ Advanced Mock Exam</h1>
           <p className="text-xl text-gray-600 mb-8">CPP Certification Practice Test</p>
 
+          {/* Unfinished exam prompt */}
+          {savedSession && (
+            <div className="bg-yellow-50 border-l-4 border-yellow-500 p-6 mb-8">
+              <h2 className="text-xl font-semibold mb-2">Resume exam?</h2>
+              <p className="text-gray-700 mb-4">
+                You have an unfinished{' '}
+                {getExamTypeLabel(savedSession.examMode, savedSession.selectedModule, savedSession.selectedTopic)}{' '}
+                attempt with {getAnsweredCount(savedSession.selectedAnswers)} of {savedSession.questionIds.length} questions
+                answered{hasInstantFeedback(savedSession.examMode) ? '' : ` and ${formatTime(savedSession.timeRemaining)} remaining`}{' '}
+                (saved {new Date(savedSession.savedAt).toLocaleString()}).
+              </p>
+              <div className="flex gap-4">
+                <button
+                  onClick={onResumeExam}
+                  className="flex items-center gap-2 bg-yellow-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-yellow-600 transition"
+                >
+                  <PlayCircle size={20} />
+                  Resume Exam
+                </button>
+                <button
+                  onClick={onDiscardSession}
+                  className="bg-gray-200 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-300 transition"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Exam Type Selection */}
           <div className="mb-8">
             <label htmlFor="exam-type" className="block text-lg font-semibold text-gray-700 mb-3">
@@ -52,33 +151,121 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
               className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="full">Full Mock Exam (All Modules)</option>
+              <option value="practice">Practice Mode (All Modules, untimed with instant feedback)</option>
               {sortedModuleEntries.map(([moduleNum, moduleName]) => (
                 <option key={moduleNum} value={`module-${moduleNum}`}>
                   Module {moduleNum}: {moduleName}
                 </option>
               ))}
+              {sortedModuleEntries.map(([moduleNum, moduleName]) => {
+                const drillTopics = MODULE_TOPICS[parseInt(moduleNum, 10)].filter(topic => topicQuestionCounts[topic] > 0);
+                if (drillTopics.length === 0) return null;
+
+                return (
+                  <optgroup key={moduleNum} label={`Topic Drills - Module ${moduleNum}: ${moduleName}`}>
+                    {drillTopics.map(topic => (
+                      <option key={topic} value={`topic-${topic}`}>
+                        {topic} ({topicQuestionCounts[topic]} questions)
+                      </option>
+                    ))}
+                  </optgroup>
+                );
+              })}
+              {presets.map(preset => (
+                <optgroup key={preset.id} label={`Custom Preset - ${preset.name}`}>
+                  <option value={`preset:${preset.id}`}>
+                    {preset.name}: Full Exam ({preset.questionCount} questions, {preset.durationMinutes} minutes)
+                  </option>
+                  {[...preset.modules].sort((a, b) => a - b).map(moduleNum => (
+                    <option key={moduleNum} value={`preset:${preset.id}:module-${moduleNum}`}>
+                      {preset.name}: Module {moduleNum}: {MODULE_NAMES[moduleNum]}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
             </select>
           </div>
 
+          {/* Paper Seed */}
+          <div className="mb-8">
+            <label htmlFor="exam-seed" className="block text-lg font-semibold text-gray-700 mb-3">
+              Paper Seed (optional):
+            </label>
+            <input
+              id="exam-seed"
+              type="text"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              placeholder="Leave blank for a random paper"
+              className="w-full px-4 py-3 text-lg font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-sm text-gray-500 mt-2">
+              Everyone who uses the same seed and exam type sits the identical paper.
+            </p>
+          </div>
+
           <div className="bg-blue-50 border-l-4 border-blue-500 p-6 mb-8">
             <h2 className="text-xl font-semibold mb-4">Exam Information</h2>
             {isModuleExam && selectedModuleNumber ? (
               <ul className="space-y-2 text-gray-700">
                 <li>• <strong>Topics:</strong> {MODULE_TOPICS[selectedModuleNumber].join(', ')}</li>
-                <li>• <strong>Total Questions:</strong> {EXAM_CONSTANTS.MODULE_QUESTIONS} questions</li>
+                <li>• <strong>Total Questions:</strong> {moduleQuestionCount} questions</li>
                 <li>• <strong>Question Types:</strong> Mix of single-choice and multiple-choice questions</li>
-                <li>• <strong>Duration:</strong> {EXAM_CONSTANTS.MODULE_DURATION_MINUTES} minutes</li>
-                <li>• <strong>Passing Score:</strong> {EXAM_CONSTANTS.PASSING_PERCENTAGE}% ({Math.ceil(EXAM_CONSTANTS.MODULE_QUESTIONS * EXAM_CONSTANTS.PASSING_PERCENTAGE / 100)}/{EXAM_CONSTANTS.MODULE_QUESTIONS} correct)</li>
+                <li>• <strong>Duration:</strong> {moduleDurationMinutes} minutes</li>
+                <li>• <strong>Passing Score:</strong> {passingPercentage}% ({Math.ceil(moduleQuestionCount * passingPercentage / 100)}/{moduleQuestionCount} correct)</li>
+                {activePreset && (
+                  <li>• <strong>Scoring:</strong> {SCORING_STRATEGY_LABELS[activePreset.scoringStrategy ?? 'strict']}</li>
+                )}
+              </ul>
+            ) : selectedTopic ? (
+              <ul className="space-y-2 text-gray-700">
+                <li>• <strong>Topic:</strong> {selectedTopic}</li>
+                <li>• <strong>Total Questions:</strong> {Math.min(EXAM_CONSTANTS.MODULE_QUESTIONS, topicQuestionCounts[selectedTopic] ?? 0)} questions tagged with this topic</li>
+                <li>• <strong>Duration:</strong> Untimed</li>
+                <li>• <strong>Feedback:</strong> Use "Check Answer" to see the correct options and explanation straight away</li>
+              </ul>
+            ) : isPractice ? (
+              <ul className="space-y-2 text-gray-700">
+                <li>• <strong>Total Questions:</strong> {blueprintTotal} questions (drawn from each module according to the blueprint below)</li>
+                <li>• <strong>Duration:</strong> Untimed</li>
+                <li>• <strong>Feedback:</strong> Use "Check Answer" to lock in a question and see the correct options and explanation straight away</li>
+                <li>• <strong>Score:</strong> A running score of checked questions is shown in the header</li>
               </ul>
             ) : (
               <ul className="space-y-2 text-gray-700">
-                <li>• <strong>Total Questions:</strong> {EXAM_CONSTANTS.TOTAL_QUESTIONS} questions (randomly selected from question bank)</li>
-                <li>• <strong>Question Types:</strong> Mix of single-choice and multiple-choice questions</li>
-                <li>• <strong>Duration:</strong> {EXAM_CONSTANTS.DURATION_MINUTES} minutes</li>
-                <li>• <strong>Passing Score:</strong> {EXAM_CONSTANTS.PASSING_PERCENTAGE}% ({Math.ceil(EXAM_CONSTANTS.TOTAL_QUESTIONS * EXAM_CONSTANTS.PASSING_PERCENTAGE / 100)}/{EXAM_CONSTANTS.TOTAL_QUESTIONS} correct)</li>
-                <li>• <strong>Coverage:</strong> 9 modules covering STL containers, algorithms, I/O, and templates</li>
+                <li>• <strong>Total Questions:</strong> {blueprintTotal} questions (drawn from each module according to the blueprint below)</li>
+                <li>• <strong>Question Types:</strong> {examBlueprint.multipleRatio === undefined
+                  ? 'Mix of single-choice and multiple-choice questions'
+                  : `About ${Math.round(examBlueprint.multipleRatio * 100)}% multiple-choice, the rest single-choice`}</li>
+                <li>• <strong>Duration:</strong> {durationMinutes} minutes</li>
+                <li>• <strong>Passing Score:</strong> {passingPercentage}% ({Math.ceil(blueprintTotal * passingPercentage / 100)}/{blueprintTotal} correct)</li>
+                {activePreset && (
+                  <li>• <strong>Scoring:</strong> {SCORING_STRATEGY_LABELS[activePreset.scoringStrategy ?? 'strict']}</li>
+                )}
+                <li>• <strong>Coverage:</strong> {activePreset
+                  ? `Modules ${[...activePreset.modules].sort((a, b) => a - b).join(', ')} of the 9 course modules`
+                  : '9 modules covering STL containers, algorithms, I/O, and templates'}</li>
               </ul>
             )}
+            {!isModuleExam && !selectedTopic && (
+              <div className="mt-4">
+                <h3 className="font-semibold text-gray-700 mb-2">Exam Blueprint</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                  {sortedModuleEntries
+                    .filter(([moduleNum]) => examBlueprint.moduleCounts[parseInt(moduleNum, 10)] > 0)
+                    .map(([moduleNum, moduleName]) => (
+                      <div key={moduleNum} className="flex justify-between bg-white rounded px-3 py-2">
+                        <span className="text-gray-600 truncate mr-2" title={moduleName}>
+                          Module {moduleNum}: {moduleName}
+                        </span>
+                        <span className="font-semibold text-gray-800">
+                          {examBlueprint.moduleCounts[parseInt(moduleNum, 10)]}
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="flex gap-4">
@@ -89,15 +276,43 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
               Start Exam
             </button>
 
-            {hasHistory && (
+            {dueReviewCount > 0 && (
               <button
-                onClick={onShowHistory}
-                className="flex items-center gap-2 bg-gray-600 text-white px-6 py-4 rounded-lg font-semibold hover:bg-gray-700 transition"
+                onClick={() => onStartExam('review', null)}
+                className="flex items-center gap-2 bg-purple-600 text-white px-6 py-4 rounded-lg font-semibold hover:bg-purple-700 transition"
+                title="Untimed session of previously missed questions that are due for review"
               >
-                <History size={20} />
-                View History
+                <Repeat size={20} />
+                Review Due Questions ({Math.min(dueReviewCount, EXAM_CONSTANTS.REVIEW_SESSION_QUESTIONS)})
               </button>
             )}
+
+            <button
+              onClick={onShowHistory}
+              className="flex items-center gap-2 bg-gray-600 text-white px-6 py-4 rounded-lg font-semibold hover:bg-gray-700 transition"
+              title={hasHistory ? undefined : 'No attempts yet - import a history file from another device'}
+            >
+              <History size={20} />
+              View History
+            </button>
+
+            <button
+              onClick={onShowSettings}
+              className="flex items-center gap-2 bg-gray-200 text-gray-700 px-6 py-4 rounded-lg font-semibold hover:bg-gray-300 transition"
+              title="Create custom exam presets"
+            >
+              <Settings size={20} />
+              Settings
+            </button>
+
+            <button
+              onClick={onShowAuthoring}
+              className="flex items-center gap-2 bg-gray-200 text-gray-700 px-6 py-4 rounded-lg font-semibold hover:bg-gray-300 transition"
+              title="Write new questions or edit existing ones"
+            >
+              <FilePen size={20} />
+              Author Questions
+            </button>
           </div>
         </div>
       </div>
@@ -1,78 +1,175 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { Question, ExamResult, SelectedAnswers, ExamState, ExamMode } from '../types/exam.types';
-import { EXAM_CONSTANTS } from '../types/exam.types';
+import type { Question, ExamResult, SelectedAnswers, ExamState, ExamMode, ExamBlueprint, ExamPreset, ResultAnnotations } from '../types/exam.types';
+import { EXAM_CONSTANTS, DEFAULT_EXAM_BLUEPRINT } from '../types/exam.types';
 import { storageService } from '../services/storage.service';
-import { selectRandomQuestions, selectModuleQuestions, calculateResults } from '../utils/exam.utils';
+import {
+  selectBlueprintQuestions,
+  selectModuleQuestions,
+  calculateResults,
+  createSeededRandom,
+  generateSeed,
+  createExamSession,
+  restoreSessionQuestions,
+  hasInstantFeedback,
+  selectRetryQuestions,
+  selectTopicQuestions,
+  createOptionOrders
+} from '../utils/exam.utils';
+import { getPresetBlueprint, getPresetModuleDuration } from '../utils/preset.utils';
+import { selectDueQuestions, updateReviewDeck } from '../utils/review.utils';
+import { downloadTextFile, getFileDateStamp } from '../utils/file.utils';
+import { createQuestionBundle } from '../utils/authoring.utils';
 
-export const useExamState = (questionBank: Question[]) => {
+export const useExamState = (questionBank: Question[], blueprint: ExamBlueprint = DEFAULT_EXAM_BLUEPRINT) => {
   const [state, setState] = useState<ExamState>({
     examStarted: false,
     currentQuestion: 0,
     selectedAnswers: {},
     markedForReview: new Set<number>(),
+    checkedQuestions: new Set<number>(),
     timeRemaining: EXAM_CONSTANTS.DURATION_MINUTES * 60,
+    elapsedSeconds: 0,
+    questionTimes: {},
+    optionOrders: {},
     examSubmitted: false,
     showHistory: false,
     examQuestions: [],
     results: null,
     resultsHistory: [],
+    migrationReport: null,
+    reviewDeck: {},
     examMode: 'full',
-    selectedModule: null
+    selectedModule: null,
+    selectedTopic: null,
+    seed: '',
+    savedSession: null,
+    presets: [],
+    presetId: null,
+    showSettings: false,
+    questionDrafts: [],
+    showAuthoring: false
   });
 
-  // Load results history on mount
+  // Load results history, the review deck, presets, question drafts and any unfinished exam session on mount
   useEffect(() => {
     const loadHistory = async () => {
-      const history = await storageService.loadResults();
-      setState(prev => ({ ...prev, resultsHistory: history }));
+      const [history, reviewDeck, session, presets, questionDrafts] = await Promise.all([
+        storageService.loadResults(),
+        storageService.loadReviewDeck(),
+        storageService.loadSession(),
+        storageService.loadPresets(),
+        storageService.loadQuestionDrafts()
+      ]);
+      setState(prev => ({
+        ...prev,
+        resultsHistory: history,
+        migrationReport: storageService.getMigrationReport(),
+        reviewDeck,
+        savedSession: session,
+        presets,
+        questionDrafts
+      }));
     };
     loadHistory();
   }, []);
 
+  // Pick up results saved, deleted or imported in another tab
+  useEffect(() => {
+    return storageService.subscribeToResultChanges(async () => {
+      const history = await storageService.loadResults();
+      setState(prev => ({ ...prev, resultsHistory: history }));
+    });
+  }, []);
+
+  // Checkpoint the in-progress exam so a reload doesn't lose it
+  useEffect(() => {
+    if (!state.examStarted || state.examSubmitted || state.examQuestions.length === 0) return;
+    storageService.saveSession(createExamSession(state));
+  }, [state]);
+
   // Timer effect
+  // Elapsed time, overall and for the question on screen, is counted in every mode;
+  // practice and review sessions have no countdown
   useEffect(() => {
-    if (!state.examStarted || state.examSubmitted || state.timeRemaining <= 0) return;
+    const isTimed = !hasInstantFeedback(state.examMode);
+    if (!state.examStarted || state.examSubmitted || (isTimed && state.timeRemaining <= 0)) return;
 
     const timer = setInterval(() => {
       setState(prev => {
+        const currentId = prev.examQuestions[prev.currentQuestion]?.id;
+        const ticked = {
+          ...prev,
+          elapsedSeconds: prev.elapsedSeconds + 1,
+          questionTimes: currentId === undefined
+            ? prev.questionTimes
+            : { ...prev.questionTimes, [currentId]: (prev.questionTimes[currentId] ?? 0) + 1 }
+        };
+        if (!isTimed) {
+          return ticked;
+        }
         if (prev.timeRemaining <= 1) {
           // Time's up - submit exam
-          submitExam(prev);
-          return { ...prev, timeRemaining: 0 };
+          submitExam(ticked);
+          return { ...ticked, timeRemaining: 0 };
         }
-        return { ...prev, timeRemaining: prev.timeRemaining - 1 };
+        return { ...ticked, timeRemaining: prev.timeRemaining - 1 };
       });
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [state.examStarted, state.examSubmitted, state.timeRemaining]);
+  }, [state.examStarted, state.examSubmitted, state.examMode, state.timeRemaining]);
 
   const submitExam = useCallback((currentState: ExamState = state) => {
-    const newResults = calculateResults(
-      currentState.examQuestions,
-      currentState.selectedAnswers,
-      currentState.examMode,
-      currentState.selectedModule
-    );
+    const preset = currentState.presets.find(p => p.id === currentState.presetId);
+    const newResults: ExamResult = {
+      ...calculateResults(
+        currentState.examQuestions,
+        currentState.selectedAnswers,
+        currentState.examMode,
+        currentState.selectedModule,
+        currentState.seed,
+        currentState.selectedTopic,
+        currentState.questionTimes,
+        preset?.passingPercentage,
+        preset?.scoringStrategy,
+        currentState.optionOrders
+      ),
+      timeSpentSeconds: currentState.elapsedSeconds,
+      ...(!hasInstantFeedback(currentState.examMode) && {
+        durationSeconds: currentState.elapsedSeconds + currentState.timeRemaining
+      }),
+      ...(preset && { presetId: preset.id, presetName: preset.name })
+    };
+
+    storageService.clearSession();
 
     setState(prev => {
       const newHistory = [...prev.resultsHistory, newResults];
+      const newReviewDeck = updateReviewDeck(prev.reviewDeck, newResults, prev.checkedQuestions);
 
       // Save to storage asynchronously
-      storageService.saveResults(newHistory).catch(error => {
+      storageService.appendResult(newResults).catch(error => {
         console.error('Failed to save results:', error);
       });
+      storageService.saveReviewDeck(newReviewDeck);
 
       return {
         ...prev,
         results: newResults,
         examSubmitted: true,
-        resultsHistory: newHistory
+        resultsHistory: newHistory,
+        reviewDeck: newReviewDeck
       };
     });
   }, [state]);
 
-  const startNewExam = useCallback((examMode: ExamMode = 'full', moduleNumber: number | null = null) => {
+  const startNewExam = useCallback((
+    examMode: ExamMode = 'full',
+    moduleNumber: number | null = null,
+    seed: string = generateSeed(),
+    topic: string | null = null,
+    presetId: string | null = null
+  ) => {
     if (state.examStarted && !state.examSubmitted) {
       if (!confirm('Are you sure you want to start a new exam? Current progress will be lost.')) {
         return;
@@ -81,13 +178,35 @@ export const useExamState = (questionBank: Question[]) => {
 
     let questions: Question[];
     let duration: number;
+    const random = createSeededRandom(seed);
+    const preset = state.presets.find(p => p.id === presetId) ?? null;
 
-    if (examMode === 'module' && moduleNumber !== null) {
-      questions = selectModuleQuestions(questionBank, moduleNumber, EXAM_CONSTANTS.MODULE_QUESTIONS);
-      duration = EXAM_CONSTANTS.MODULE_DURATION_MINUTES * 60;
+    if (examMode === 'review') {
+      questions = selectDueQuestions(questionBank, state.reviewDeck, EXAM_CONSTANTS.REVIEW_SESSION_QUESTIONS);
+      duration = 0;
+      if (questions.length === 0) {
+        alert('No questions are due for review right now.');
+        return;
+      }
+    } else if (examMode === 'topic' && topic !== null) {
+      questions = selectTopicQuestions(questionBank, topic, EXAM_CONSTANTS.MODULE_QUESTIONS, random);
+      duration = 0;
+    } else if (examMode === 'module' && moduleNumber !== null) {
+      questions = selectModuleQuestions(
+        questionBank,
+        moduleNumber,
+        preset ? preset.moduleQuestionCount : EXAM_CONSTANTS.MODULE_QUESTIONS,
+        random
+      );
+      duration = preset ? getPresetModuleDuration(preset) : EXAM_CONSTANTS.MODULE_DURATION_MINUTES * 60;
     } else {
-      questions = selectRandomQuestions(questionBank, EXAM_CONSTANTS.TOTAL_QUESTIONS);
-      duration = EXAM_CONSTANTS.DURATION_MINUTES * 60;
+      // Full exams and practice sessions both follow the blueprint, scaled to the preset if there is one
+      questions = selectBlueprintQuestions(
+        questionBank,
+        preset ? getPresetBlueprint(preset, blueprint) : blueprint,
+        random
+      );
+      duration = (preset ? preset.durationMinutes : EXAM_CONSTANTS.DURATION_MINUTES) * 60;
     }
 
     setState(prev => ({
@@ -96,15 +215,109 @@ export const useExamState = (questionBank: Question[]) => {
       currentQuestion: 0,
       selectedAnswers: {},
       markedForReview: new Set<number>(),
+      checkedQuestions: new Set<number>(),
       timeRemaining: duration,
+      elapsedSeconds: 0,
+      questionTimes: {},
+      optionOrders: createOptionOrders(questions, seed),
       examSubmitted: false,
       results: null,
       examStarted: true,
       showHistory: false,
       examMode,
-      selectedModule: moduleNumber
+      selectedModule: moduleNumber,
+      selectedTopic: topic,
+      seed,
+      savedSession: null,
+      presetId: preset?.id ?? null,
+      showSettings: false
     }));
-  }, [questionBank, state.examStarted, state.examSubmitted]);
+  }, [questionBank, blueprint, state.examStarted, state.examSubmitted, state.reviewDeck, state.presets]);
+
+  const startRetryExam = useCallback((questionIds: number[]) => {
+    const seed = generateSeed();
+    const questions = selectRetryQuestions(questionBank, questionIds, createSeededRandom(seed));
+    if (questions.length === 0) return;
+
+    // Allow the same time per question as a full exam
+    const duration = Math.ceil(
+      questions.length * EXAM_CONSTANTS.DURATION_MINUTES * 60 / EXAM_CONSTANTS.TOTAL_QUESTIONS
+    );
+
+    setState(prev => ({
+      ...prev,
+      examQuestions: questions,
+      currentQuestion: 0,
+      selectedAnswers: {},
+      markedForReview: new Set<number>(),
+      checkedQuestions: new Set<number>(),
+      timeRemaining: duration,
+      elapsedSeconds: 0,
+      questionTimes: {},
+      optionOrders: createOptionOrders(questions, seed),
+      examSubmitted: false,
+      results: null,
+      examStarted: true,
+      showHistory: false,
+      examMode: 'retry',
+      selectedModule: null,
+      selectedTopic: null,
+      seed,
+      savedSession: null,
+      presetId: null
+    }));
+  }, [questionBank]);
+
+  const resumeExam = useCallback(() => {
+    const session = state.savedSession;
+    if (!session) return;
+
+    const questions = restoreSessionQuestions(session, questionBank);
+    if (!questions) {
+      alert('This exam can no longer be resumed because its questions have changed.');
+      storageService.clearSession();
+      setState(prev => ({ ...prev, savedSession: null }));
+      return;
+    }
+
+    setState(prev => ({
+      ...prev,
+      examQuestions: questions,
+      currentQuestion: Math.min(session.currentQuestion, questions.length - 1),
+      selectedAnswers: session.selectedAnswers,
+      markedForReview: new Set<number>(session.markedForReview),
+      checkedQuestions: new Set<number>(session.checkedQuestions),
+      timeRemaining: session.timeRemaining,
+      elapsedSeconds: session.elapsedSeconds ?? 0,
+      questionTimes: session.questionTimes ?? {},
+      optionOrders: createOptionOrders(questions, session.seed),
+      examSubmitted: false,
+      results: null,
+      examStarted: true,
+      showHistory: false,
+      examMode: session.examMode,
+      selectedModule: session.selectedModule,
+      selectedTopic: session.selectedTopic,
+      seed: session.seed,
+      savedSession: null,
+      presetId: session.presetId ?? null
+    }));
+  }, [questionBank, state.savedSession]);
+
+  const discardSavedSession = useCallback(() => {
+    storageService.clearSession();
+    setState(prev => ({ ...prev, savedSession: null }));
+  }, []);
+
+  const exitExam = useCallback(() => {
+    storageService.clearSession();
+    setState(prev => ({
+      ...prev,
+      examStarted: false,
+      examSubmitted: false,
+      results: null
+    }));
+  }, []);
 
   const setCurrentQuestion = useCallback((index: number) => {
     setState(prev => ({ ...prev, currentQuestion: index }));
@@ -117,6 +330,11 @@ export const useExamState = (questionBank: Question[]) => {
       const questionType = currentQuestion.type;
       const current = prev.selectedAnswers[questionId] || [];
 
+      // Checked practice questions are locked
+      if (prev.checkedQuestions.has(questionId)) {
+        return prev;
+      }
+
       let newAnswers: SelectedAnswers;
       if (questionType === 'single') {
         newAnswers = {
@@ -163,10 +381,77 @@ export const useExamState = (questionBank: Question[]) => {
     });
   }, []);
 
+  const checkAnswer = useCallback(() => {
+    setState(prev => {
+      const questionId = prev.examQuestions[prev.currentQuestion].id;
+      if (prev.checkedQuestions.has(questionId)) {
+        return prev;
+      }
+      const newChecked = new Set(prev.checkedQuestions);
+      newChecked.add(questionId);
+      return { ...prev, checkedQuestions: newChecked };
+    });
+  }, []);
+
   const setShowHistory = useCallback((show: boolean) => {
     setState(prev => ({ ...prev, showHistory: show }));
   }, []);
 
+  const setShowSettings = useCallback((show: boolean) => {
+    setState(prev => ({ ...prev, showSettings: show }));
+  }, []);
+
+  const savePreset = useCallback((preset: ExamPreset) => {
+    setState(prev => {
+      const exists = prev.presets.some(p => p.id === preset.id);
+      const presets = exists
+        ? prev.presets.map(p => p.id === preset.id ? preset : p)
+        : [...prev.presets, preset];
+      storageService.savePresets(presets);
+      return { ...prev, presets };
+    });
+  }, []);
+
+  const deletePreset = useCallback((presetId: string) => {
+    if (confirm('Delete this preset? Attempts taken with it stay in your history.')) {
+      setState(prev => {
+        const presets = prev.presets.filter(p => p.id !== presetId);
+        storageService.savePresets(presets);
+        return { ...prev, presets };
+      });
+    }
+  }, []);
+
+  const setShowAuthoring = useCallback((show: boolean) => {
+    setState(prev => ({ ...prev, showAuthoring: show }));
+  }, []);
+
+  const saveQuestionDraft = useCallback((draft: Question) => {
+    setState(prev => {
+      const exists = prev.questionDrafts.some(q => q.id === draft.id);
+      const questionDrafts = exists
+        ? prev.questionDrafts.map(q => q.id === draft.id ? draft : q)
+        : [...prev.questionDrafts, draft];
+      storageService.saveQuestionDrafts(questionDrafts);
+      return { ...prev, questionDrafts };
+    });
+  }, []);
+
+  const deleteQuestionDraft = useCallback((questionId: number) => {
+    if (confirm('Discard this draft? Questions already in the bank are not affected.')) {
+      setState(prev => {
+        const questionDrafts = prev.questionDrafts.filter(q => q.id !== questionId);
+        storageService.saveQuestionDrafts(questionDrafts);
+        return { ...prev, questionDrafts };
+      });
+    }
+  }, []);
+
+  const exportQuestionDrafts = useCallback(() => {
+    const bundle = createQuestionBundle(state.questionDrafts);
+    downloadTextFile(`cpp-exam-questions-${getFileDateStamp()}.json`, JSON.stringify(bundle, null, 2));
+  }, [state.questionDrafts]);
+
   const setExamStarted = useCallback((started: boolean) => {
     setState(prev => ({ ...prev, examStarted: started }));
   }, []);
@@ -186,19 +471,71 @@ export const useExamState = (questionBank: Question[]) => {
     }
   }, []);
 
+  const deleteResult = useCallback(async (timestamp: string) => {
+    if (confirm('Delete this attempt from your history?')) {
+      await storageService.deleteResult(timestamp);
+      setState(prev => ({
+        ...prev,
+        resultsHistory: prev.resultsHistory.filter(r => r.timestamp !== timestamp)
+      }));
+    }
+  }, []);
+
+  const annotateResult = useCallback((timestamp: string, annotations: ResultAnnotations) => {
+    // Merged into the latest copy, so quick successive edits (a note, then "Exclude") all persist
+    setState(prev => {
+      const result = prev.resultsHistory.find(r => r.timestamp === timestamp);
+      if (!result) return prev;
+
+      const updated = { ...result, ...annotations };
+      storageService.updateResult(updated);
+      return {
+        ...prev,
+        resultsHistory: prev.resultsHistory.map(r => r.timestamp === timestamp ? updated : r)
+      };
+    });
+  }, []);
+
+  const exportHistory = useCallback(async () => {
+    const json = await storageService.exportHistory();
+    downloadTextFile(`cpp-exam-history-${getFileDateStamp()}.json`, json);
+  }, []);
+
+  const importHistory = useCallback(async (file: File) => {
+    const summary = await storageService.importHistory(await file.text());
+    setState(prev => ({ ...prev, resultsHistory: summary.results }));
+    return summary;
+  }, []);
+
   return {
     state,
     actions: {
       startNewExam,
+      startRetryExam,
+      resumeExam,
+      discardSavedSession,
+      exitExam,
       submitExam: () => submitExam(state),
       setCurrentQuestion,
       toggleAnswer,
       toggleMarkReview,
+      checkAnswer,
       setShowHistory,
+      setShowSettings,
+      savePreset,
+      deletePreset,
+      setShowAuthoring,
+      saveQuestionDraft,
+      deleteQuestionDraft,
+      exportQuestionDrafts,
       setExamStarted,
       setExamSubmitted,
       setResults,
-      clearHistory
+      clearHistory,
+      deleteResult,
+      annotateResult,
+      exportHistory,
+      importHistory
     }
   };
 };
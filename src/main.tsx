@@ -2,6 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { createDefaultAdapters } from './services/adapters'
+import { storageService } from './services/storage.service'
+
+storageService.registerAdapters(createDefaultAdapters())
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,88 @@
+import type { ExamResult } from '../../types/exam.types';
+import { LocalStorageKeyValueAdapter } from './localStorage.adapter';
+import { isFileNotFoundError } from './storageAdapter';
+
+const STORAGE_FILE = 'exam-history.json';
+
+/**
+ * File API exposed on `window.electron` by the Electron preload script
+ */
+interface ElectronFileApi {
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+  deleteFile(path: string): Promise<void>;
+}
+
+const getElectron = (): ElectronFileApi | undefined =>
+  typeof window !== 'undefined'
+    ? (window as Window & { electron?: ElectronFileApi }).electron
+    : undefined;
+
+/**
+ * Stores the history as a JSON file through the Electron preload bridge
+ */
+export class ElectronStorageAdapter extends LocalStorageKeyValueAdapter {
+  readonly name = 'Electron';
+
+  isAvailable(): boolean {
+    return Boolean(getElectron());
+  }
+
+  saveResults(results: ExamResult[]): Promise<void> {
+    return this.writeRecords(results);
+  }
+
+  /**
+   * A missing file means nothing is stored yet; any other failure is rethrown
+   */
+  async loadResults(): Promise<unknown[]> {
+    let data: string;
+    try {
+      data = await this.requireElectron().readFile(STORAGE_FILE);
+    } catch (error) {
+      if (isFileNotFoundError(error)) {
+        return [];
+      }
+      throw error;
+    }
+    const parsed = JSON.parse(data);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Invalid history data format - expected array');
+    }
+    return parsed;
+  }
+
+  /**
+   * The history is a single file, so appending rewrites it
+   * loadResults throws on an unreadable file, so a bad read never overwrites the history
+   */
+  async appendResult(result: ExamResult): Promise<void> {
+    const records = await this.loadResults();
+    await this.writeRecords([...records.filter(r => !this.hasTimestamp(r, result.timestamp)), result]);
+  }
+
+  async deleteResult(timestamp: string): Promise<void> {
+    const records = await this.loadResults();
+    await this.writeRecords(records.filter(r => !this.hasTimestamp(r, timestamp)));
+  }
+
+  async clearResults(): Promise<void> {
+    await this.requireElectron().deleteFile(STORAGE_FILE);
+  }
+
+  private async writeRecords(records: unknown[]): Promise<void> {
+    await this.requireElectron().writeFile(STORAGE_FILE, JSON.stringify(records, null, 2));
+  }
+
+  private hasTimestamp(record: unknown, timestamp: string): boolean {
+    return (record as { timestamp?: unknown } | null)?.timestamp === timestamp;
+  }
+
+  private requireElectron(): ElectronFileApi {
+    const electron = getElectron();
+    if (!electron) {
+      throw new Error('File system not available');
+    }
+    return electron;
+  }
+}
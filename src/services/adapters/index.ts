@@ -0,0 +1,21 @@
+import { ElectronStorageAdapter } from './electron.adapter';
+import { IndexedDbStorageAdapter } from './indexedDb.adapter';
+import { LocalStorageAdapter } from './localStorage.adapter';
+import { MemoryStorageAdapter } from './memory.adapter';
+import type { StorageAdapter } from './storageAdapter';
+import { TauriStorageAdapter } from './tauri.adapter';
+
+export type { StorageAdapter } from './storageAdapter';
+export { ElectronStorageAdapter, IndexedDbStorageAdapter, LocalStorageAdapter, MemoryStorageAdapter, TauriStorageAdapter };
+
+/**
+ * The built-in adapters in order of preference: desktop file storage, then IndexedDB,
+ * then localStorage, with in-memory storage as the last resort
+ */
+export const createDefaultAdapters = (): StorageAdapter[] => [
+  new ElectronStorageAdapter(),
+  new TauriStorageAdapter(),
+  new IndexedDbStorageAdapter(),
+  new LocalStorageAdapter(),
+  new MemoryStorageAdapter()
+];
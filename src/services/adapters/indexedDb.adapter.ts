@@ -0,0 +1,63 @@
+import type { ExamResult } from '../../types/exam.types';
+import { IndexedDbStore } from '../indexedDb.store';
+import { LocalStorageAdapter, LocalStorageKeyValueAdapter } from './localStorage.adapter';
+
+const LOCAL_STORAGE_MIGRATED_META = 'localStorageMigrated';
+
+/**
+ * Stores results in IndexedDB, normalized by question id
+ * History saved by LocalStorageAdapter before IndexedDB was used is offered for a one-time move
+ */
+export class IndexedDbStorageAdapter extends LocalStorageKeyValueAdapter {
+  readonly name = 'IndexedDB';
+  private store = new IndexedDbStore();
+  private legacy = new LocalStorageAdapter();
+
+  isAvailable(): boolean {
+    return IndexedDbStore.isAvailable();
+  }
+
+  saveResults(results: ExamResult[]): Promise<void> {
+    return this.store.saveResults(results);
+  }
+
+  loadResults(): Promise<unknown[]> {
+    return this.store.loadResults();
+  }
+
+  appendResult(result: ExamResult): Promise<void> {
+    return this.store.appendResult(result);
+  }
+
+  deleteResult(timestamp: string): Promise<void> {
+    return this.store.deleteResult(timestamp);
+  }
+
+  async clearResults(): Promise<void> {
+    await this.store.clearResults();
+    await this.legacy.clearResults();
+  }
+
+  async takeLegacyResults(): Promise<unknown[] | null> {
+    if (await this.store.getMeta<boolean>(LOCAL_STORAGE_MIGRATED_META)) {
+      return null;
+    }
+
+    const records = await this.legacy.loadResults();
+    if (records.length === 0) {
+      // Nothing to move, so never look again
+      await this.commitLegacyResults();
+      return null;
+    }
+
+    return records;
+  }
+
+  /**
+   * The localStorage copy is only removed once IndexedDB has accepted the results
+   */
+  async commitLegacyResults(): Promise<void> {
+    await this.store.setMeta(LOCAL_STORAGE_MIGRATED_META, true);
+    await this.legacy.clearResults();
+  }
+}
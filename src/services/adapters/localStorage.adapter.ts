@@ -0,0 +1,162 @@
+import type { ExamResult } from '../../types/exam.types';
+import type { StorageAdapter } from './storageAdapter';
+
+/** Key used before results were stored one per key, holding the whole history as an array */
+const LEGACY_RESULTS_KEY = 'examResultsHistory';
+const RESULT_KEY_PREFIX = 'examResult:';
+
+const getResultKey = (timestamp: string): string => `${RESULT_KEY_PREFIX}${timestamp}`;
+
+/**
+ * Parse a stored record, returning the raw text if it is not valid JSON
+ */
+const parseRecord = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const getResultKeys = (): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(RESULT_KEY_PREFIX)) {
+      keys.push(key);
+    }
+  }
+  return keys;
+};
+
+/**
+ * Key-value storage in localStorage, shared by the browser and desktop adapters
+ */
+export abstract class LocalStorageKeyValueAdapter implements StorageAdapter {
+  abstract readonly name: string;
+  abstract isAvailable(): boolean;
+  abstract saveResults(results: ExamResult[]): Promise<void>;
+  abstract loadResults(): Promise<unknown[]>;
+  abstract appendResult(result: ExamResult): Promise<void>;
+  abstract deleteResult(timestamp: string): Promise<void>;
+  abstract clearResults(): Promise<void>;
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Stores each result under its own localStorage key, so one tab's write cannot overwrite
+ * results saved by another
+ */
+export class LocalStorageAdapter extends LocalStorageKeyValueAdapter {
+  readonly name = 'localStorage';
+
+  isAvailable(): boolean {
+    try {
+      const testKey = '__storage_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async saveResults(results: ExamResult[]): Promise<void> {
+    const keep = new Set(results.map(r => getResultKey(r.timestamp)));
+    getResultKeys()
+      .filter(key => !keep.has(key))
+      .forEach(key => localStorage.removeItem(key));
+
+    results.forEach(result => this.writeResult(result));
+    localStorage.removeItem(LEGACY_RESULTS_KEY);
+  }
+
+  async loadResults(): Promise<unknown[]> {
+    const unkeyed = this.splitLegacyResults();
+
+    const records: { timestamp?: unknown }[] = [];
+    const unparsable: unknown[] = [];
+    getResultKeys().forEach(key => {
+      const value = localStorage.getItem(key);
+      if (value === null) return;
+      // A corrupt key is passed through as its raw text, so the migration pipeline reports it
+      // as a failed record instead of the whole load failing
+      const record = parseRecord(value);
+      if (record && typeof record === 'object') {
+        records.push(record);
+      } else {
+        unparsable.push(record);
+      }
+    });
+
+    records.sort((a, b) => new Date(a.timestamp as string).getTime() - new Date(b.timestamp as string).getTime());
+    return [...records, ...unparsable, ...unkeyed];
+  }
+
+  async appendResult(result: ExamResult): Promise<void> {
+    this.writeResult(result);
+  }
+
+  async deleteResult(timestamp: string): Promise<void> {
+    localStorage.removeItem(getResultKey(timestamp));
+  }
+
+  async clearResults(): Promise<void> {
+    getResultKeys().forEach(key => localStorage.removeItem(key));
+    localStorage.removeItem(LEGACY_RESULTS_KEY);
+  }
+
+  private writeResult(result: ExamResult): void {
+    const key = getResultKey(result.timestamp);
+    const data = JSON.stringify(result);
+    localStorage.setItem(key, data);
+
+    // Verify the save was successful by reading it back
+    if (localStorage.getItem(key) !== data) {
+      console.warn('localStorage save verification failed - data may not persist');
+    }
+  }
+
+  /**
+   * Move a history saved as one array into per-record keys
+   * Records without a usable timestamp stay in the array and are returned so the migration
+   * pipeline can report them
+   */
+  private splitLegacyResults(): unknown[] {
+    const saved = localStorage.getItem(LEGACY_RESULTS_KEY);
+    if (!saved) {
+      return [];
+    }
+
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Invalid history data format - expected array');
+    }
+
+    const unkeyed = parsed.filter(record => {
+      if (!record || typeof record.timestamp !== 'string') {
+        return true;
+      }
+      localStorage.setItem(getResultKey(record.timestamp), JSON.stringify(record));
+      return false;
+    });
+
+    if (unkeyed.length > 0) {
+      localStorage.setItem(LEGACY_RESULTS_KEY, JSON.stringify(unkeyed));
+    } else {
+      localStorage.removeItem(LEGACY_RESULTS_KEY);
+    }
+    return unkeyed;
+  }
+}
@@ -0,0 +1,48 @@
+import type { ExamResult } from '../../types/exam.types';
+import type { StorageAdapter } from './storageAdapter';
+
+/**
+ * Keeps everything in memory; nothing survives a reload
+ * Used as the last resort when no persistent storage works, and as a test double
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private results: ExamResult[] = [];
+  private items = new Map<string, string>();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async saveResults(results: ExamResult[]): Promise<void> {
+    this.results = structuredClone(results);
+  }
+
+  async loadResults(): Promise<unknown[]> {
+    return structuredClone(this.results);
+  }
+
+  async appendResult(result: ExamResult): Promise<void> {
+    this.results = [...this.results.filter(r => r.timestamp !== result.timestamp), structuredClone(result)];
+  }
+
+  async deleteResult(timestamp: string): Promise<void> {
+    this.results = this.results.filter(r => r.timestamp !== timestamp);
+  }
+
+  async clearResults(): Promise<void> {
+    this.results = [];
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
@@ -0,0 +1,54 @@
+import type { ExamResult } from '../../types/exam.types';
+
+/**
+ * A persistence backend for StorageService
+ * Results are identified by their timestamp and can be written one at a time; small documents such as the in-progress session
+ * and the review deck go through the key-value methods
+ */
+export interface StorageAdapter {
+  /** Short identifier used in logs */
+  readonly name: string;
+
+  /** Whether this backend can be used in the current environment */
+  isAvailable(): boolean;
+
+  /** Replace the stored history with the given results */
+  saveResults(results: ExamResult[]): Promise<void>;
+
+  /** Load the raw stored records, before schema migration; empty if nothing is stored */
+  loadResults(): Promise<unknown[]>;
+
+  /** Add a single result, replacing any stored result with the same timestamp */
+  appendResult(result: ExamResult): Promise<void>;
+
+  /** Remove the result with the given timestamp */
+  deleteResult(timestamp: string): Promise<void>;
+
+  /** Remove all stored results */
+  clearResults(): Promise<void>;
+
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+
+  /**
+   * Records left by an older backend that should be moved into this one, or null if there
+   * are none; StorageService saves them through this adapter and then calls commitLegacyResults
+   */
+  takeLegacyResults?(): Promise<unknown[] | null>;
+
+  /** Mark legacy records as moved so they are not offered again */
+  commitLegacyResults?(): Promise<void>;
+}
+
+/**
+ * Whether a file read failed because the file doesn't exist yet, as reported by Node
+ * (ENOENT, also through the Electron bridge) or by Tauri ("No such file or directory (os error 2)")
+ */
+export const isFileNotFoundError = (error: unknown): boolean => {
+  if ((error as { code?: unknown } | null)?.code === 'ENOENT') {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /ENOENT|no such file|os error 2\)/i.test(message);
+};
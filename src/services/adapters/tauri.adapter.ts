@@ -0,0 +1,92 @@
+import type { ExamResult } from '../../types/exam.types';
+import { LocalStorageKeyValueAdapter } from './localStorage.adapter';
+import { isFileNotFoundError } from './storageAdapter';
+
+const STORAGE_FILE = 'exam-history.json';
+
+/**
+ * The parts of the Tauri `fs` API used for history storage
+ */
+interface TauriFsApi {
+  readTextFile(path: string, options: { dir: number }): Promise<string>;
+  writeTextFile(path: string, data: string, options: { dir: number }): Promise<void>;
+  removeFile(path: string, options: { dir: number }): Promise<void>;
+  BaseDirectory: { AppData: number };
+}
+
+const getTauriFs = (): TauriFsApi | undefined =>
+  typeof window !== 'undefined'
+    ? (window as Window & { __TAURI__?: { fs: TauriFsApi } }).__TAURI__?.fs
+    : undefined;
+
+/**
+ * Stores the history as a JSON file in the Tauri app data directory
+ */
+export class TauriStorageAdapter extends LocalStorageKeyValueAdapter {
+  readonly name = 'Tauri';
+
+  isAvailable(): boolean {
+    return Boolean(getTauriFs());
+  }
+
+  saveResults(results: ExamResult[]): Promise<void> {
+    return this.writeRecords(results);
+  }
+
+  /**
+   * A missing file means nothing is stored yet; any other failure is rethrown
+   */
+  async loadResults(): Promise<unknown[]> {
+    const fs = this.requireFs();
+    let data: string;
+    try {
+      data = await fs.readTextFile(STORAGE_FILE, { dir: fs.BaseDirectory.AppData });
+    } catch (error) {
+      if (isFileNotFoundError(error)) {
+        return [];
+      }
+      throw error;
+    }
+    const parsed = JSON.parse(data);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Invalid history data format - expected array');
+    }
+    return parsed;
+  }
+
+  /**
+   * The history is a single file, so appending rewrites it
+   * loadResults throws on an unreadable file, so a bad read never overwrites the history
+   */
+  async appendResult(result: ExamResult): Promise<void> {
+    const records = await this.loadResults();
+    await this.writeRecords([...records.filter(r => !this.hasTimestamp(r, result.timestamp)), result]);
+  }
+
+  async deleteResult(timestamp: string): Promise<void> {
+    const records = await this.loadResults();
+    await this.writeRecords(records.filter(r => !this.hasTimestamp(r, timestamp)));
+  }
+
+  async clearResults(): Promise<void> {
+    const fs = this.requireFs();
+    await fs.removeFile(STORAGE_FILE, { dir: fs.BaseDirectory.AppData });
+  }
+
+  private async writeRecords(records: unknown[]): Promise<void> {
+    const fs = this.requireFs();
+    await fs.writeTextFile(STORAGE_FILE, JSON.stringify(records, null, 2), { dir: fs.BaseDirectory.AppData });
+  }
+
+  private hasTimestamp(record: unknown, timestamp: string): boolean {
+    return (record as { timestamp?: unknown } | null)?.timestamp === timestamp;
+  }
+
+  private requireFs(): TauriFsApi {
+    const fs = getTauriFs();
+    if (!fs) {
+      throw new Error('File system not available');
+    }
+    return fs;
+  }
+}
@@ -0,0 +1,265 @@
+import type { ExamResult, QuestionResult } from '../types/exam.types';
+
+const DB_NAME = 'cpp-mock-exam';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+const QUESTIONS_STORE = 'questions';
+const META_STORE = 'meta';
+
+/**
+ * Question content shared by every result that includes the question
+ */
+interface StoredQuestion {
+  id: number;
+  module?: number;
+  question: string;
+  options: string[];
+  correctAnswer: number[];
+  explanation: string;
+}
+
+/**
+ * Per-attempt part of a question result
+ * `optionOrder` maps the attempt's option positions to the stored question's options when they
+ * were shown shuffled; `content` holds the full result when it no longer matches the stored question
+ */
+interface StoredQuestionResult {
+  id: number;
+  userAnswer: number[];
+  timeSpentSeconds?: number;
+  displayOrder?: number[];
+  optionOrder?: number[];
+  content?: QuestionResult;
+}
+
+interface StoredResult extends Omit<ExamResult, 'questions'> {
+  questions: StoredQuestionResult[];
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Work out how an attempt's options relate to the stored question
+ * Returns the position of each shown option in the stored options, or null if they differ
+ */
+const getOptionOrder = (stored: StoredQuestion, result: QuestionResult): number[] | null => {
+  if (stored.question !== result.question ||
+      stored.explanation !== result.explanation ||
+      stored.options.length !== result.options.length) {
+    return null;
+  }
+
+  const order = result.options.map(option => stored.options.indexOf(option));
+  if (order.some(i => i === -1) || new Set(order).size !== order.length) {
+    return null;
+  }
+
+  const correctMatches = result.correctAnswer.length === stored.correctAnswer.length &&
+    result.correctAnswer.every(i => stored.correctAnswer.includes(order[i]));
+  return correctMatches ? order : null;
+};
+
+/**
+ * IndexedDB persistence for exam results, normalized so that each question's text, options
+ * and explanation are stored once rather than in every attempt
+ */
+export class IndexedDbStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check if IndexedDB is available in this environment
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+            db.createObjectStore(RESULTS_STORE, { keyPath: 'timestamp' });
+          }
+          if (!db.objectStoreNames.contains(QUESTIONS_STORE)) {
+            db.createObjectStore(QUESTIONS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Replace the stored history with the given results
+   */
+  saveResults(results: ExamResult[]): Promise<void> {
+    return this.writeResults(results, true);
+  }
+
+  /**
+   * Add one result, replacing any stored result with the same timestamp
+   */
+  appendResult(result: ExamResult): Promise<void> {
+    return this.writeResults([result], false);
+  }
+
+  /**
+   * Remove the result with the given timestamp
+   * Its question content stays, as other results may share it
+   */
+  async deleteResult(timestamp: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(RESULTS_STORE, 'readwrite');
+    transaction.objectStore(RESULTS_STORE).delete(timestamp);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Load every stored result, oldest first
+   */
+  async loadResults(): Promise<unknown[]> {
+    const db = await this.open();
+    const transaction = db.transaction([RESULTS_STORE, QUESTIONS_STORE], 'readonly');
+    const [results, questions] = await Promise.all([
+      requestToPromise(transaction.objectStore(RESULTS_STORE).getAll() as IDBRequest<StoredResult[]>),
+      requestToPromise(transaction.objectStore(QUESTIONS_STORE).getAll() as IDBRequest<StoredQuestion[]>)
+    ]);
+    const questionsById = new Map(questions.map(q => [q.id, q]));
+
+    return results
+      .map(result => ({
+        ...result,
+        questions: (result.questions ?? []).map(q => this.denormalizeQuestionResult(q, questionsById.get(q.id)))
+      }))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  /**
+   * Remove all stored results and question content
+   */
+  async clearResults(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([RESULTS_STORE, QUESTIONS_STORE], 'readwrite');
+    transaction.objectStore(RESULTS_STORE).clear();
+    transaction.objectStore(QUESTIONS_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read a value from the metadata store
+   */
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const db = await this.open();
+    const transaction = db.transaction(META_STORE, 'readonly');
+    return requestToPromise(transaction.objectStore(META_STORE).get(key) as IDBRequest<T | undefined>);
+  }
+
+  /**
+   * Write a value to the metadata store
+   */
+  async setMeta<T>(key: string, value: T): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(value, key);
+    await transactionDone(transaction);
+  }
+
+  private async writeResults(results: ExamResult[], replace: boolean): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([RESULTS_STORE, QUESTIONS_STORE], 'readwrite');
+    const resultsStore = transaction.objectStore(RESULTS_STORE);
+    const questionsStore = transaction.objectStore(QUESTIONS_STORE);
+
+    const storedQuestions = new Map(
+      (await requestToPromise(questionsStore.getAll() as IDBRequest<StoredQuestion[]>)).map(q => [q.id, q])
+    );
+
+    if (replace) {
+      resultsStore.clear();
+    }
+    results.forEach(result => {
+      const questions = result.questions.map(questionResult => {
+        let stored = storedQuestions.get(questionResult.id);
+        if (!stored) {
+          stored = {
+            id: questionResult.id,
+            module: questionResult.module,
+            question: questionResult.question,
+            options: questionResult.options,
+            correctAnswer: questionResult.correctAnswer,
+            explanation: questionResult.explanation
+          };
+          storedQuestions.set(stored.id, stored);
+          questionsStore.put(stored);
+        }
+        return this.normalizeQuestionResult(stored, questionResult);
+      });
+
+      resultsStore.put({ ...result, questions } satisfies StoredResult);
+    });
+
+    await transactionDone(transaction);
+  }
+
+  private normalizeQuestionResult(stored: StoredQuestion, result: QuestionResult): StoredQuestionResult {
+    const order = getOptionOrder(stored, result);
+    if (!order) {
+      return { id: result.id, userAnswer: result.userAnswer, content: result };
+    }
+
+    const attempt = {
+      id: result.id,
+      userAnswer: result.userAnswer,
+      timeSpentSeconds: result.timeSpentSeconds,
+      displayOrder: result.displayOrder
+    };
+    const isShuffled = order.some((storedIndex, shownIndex) => storedIndex !== shownIndex);
+    return isShuffled ? { ...attempt, optionOrder: order } : attempt;
+  }
+
+  private denormalizeQuestionResult(result: StoredQuestionResult, stored: StoredQuestion | undefined): QuestionResult {
+    if (result.content) {
+      return result.content;
+    }
+    if (!stored) {
+      throw new Error(`Question ${result.id} is missing from the question store`);
+    }
+
+    const order = result.optionOrder ?? stored.options.map((_, i) => i);
+    return {
+      id: stored.id,
+      module: stored.module,
+      question: stored.question,
+      userAnswer: result.userAnswer,
+      correctAnswer: stored.correctAnswer.map(i => order.indexOf(i)).sort((a, b) => a - b),
+      explanation: stored.explanation,
+      options: order.map(i => stored.options[i]),
+      timeSpentSeconds: result.timeSpentSeconds,
+      displayOrder: result.displayOrder
+    };
+  }
+}
@@ -1,14 +1,53 @@
-import type { ExamResult } from '../types/exam.types';
+import type {
+  ExamPreset,
+  ExamResult,
+  ExamSession,
+  HistoryExportDocument,
+  HistoryImportSummary,
+  MigrationReport,
+  Question,
+  ReviewDeck
+} from '../types/exam.types';
+import { SCORING_STRATEGY_LABELS } from '../types/exam.types';
+import { MigrationError, migrateResult, migrateResults } from '../utils/migration.utils';
+import { MemoryStorageAdapter } from './adapters/memory.adapter';
+import type { StorageAdapter } from './adapters/storageAdapter';
+
+const UNMIGRATED_KEY = 'examResultsUnmigrated';
+const SESSION_KEY = 'examSessionInProgress';
+const REVIEW_DECK_KEY = 'examReviewDeck';
+const PRESETS_KEY = 'examPresets';
+const QUESTION_DRAFTS_KEY = 'questionDrafts';
+const EXPORT_FORMAT = 'cpp-mock-exam-history';
+const EXPORT_VERSION = 1;
+const SYNC_CHANNEL = 'cpp-mock-exam-storage';
+
+interface SyncMessage {
+  type: 'results-changed';
+}
 
-const STORAGE_KEY = 'examResultsHistory';
-const STORAGE_FILE = 'exam-history.json';
+/**
+ * Thrown when an imported history file cannot be used, with a user-facing message
+ */
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryImportError';
+  }
+}
 
 /**
  * Storage service that handles persistence of exam results
- * Uses localStorage as fallback if file system access is not available
+ * Delegates to the first available registered StorageAdapter, falling back to the next
+ * available one if it fails
  */
 export class StorageService {
   private static instance: StorageService;
+  private migrationReport: MigrationReport | null = null;
+  private adapters: StorageAdapter[] = [];
+  private activeAdapter: StorageAdapter | null = null;
+  private syncChannel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SYNC_CHANNEL) : null;
 
   private constructor() {}
 
@@ -19,170 +58,368 @@ export class StorageService {
     return StorageService.instance;
   }
 
+  /**
+   * Register the storage backends, most preferred first
+   * Replaces any previously registered adapters
+   */
+  registerAdapters(adapters: StorageAdapter[]): void {
+    this.adapters = [...adapters];
+    this.activeAdapter = null;
+    this.migrationReport = null;
+  }
+
+  /**
+   * The adapter currently used for storage
+   */
+  getActiveAdapter(): StorageAdapter {
+    if (!this.activeAdapter) {
+      const adapter = this.adapters.find(a => a.isAvailable());
+      if (!adapter) {
+        throw new Error('No storage adapter is available');
+      }
+      this.activeAdapter = adapter;
+    }
+    return this.activeAdapter;
+  }
+
   /**
    * Save exam results to persistent storage
    */
   async saveResults(results: ExamResult[]): Promise<void> {
+    const adapter = this.getActiveAdapter();
     try {
-      // Try to save to file system (Electron or Tauri)
-      if (this.isFileSystemAvailable()) {
-        await this.saveToFile(results);
-      } else {
-        // Fallback to localStorage
-        this.saveToLocalStorage(results);
+      await adapter.saveResults(results);
+    } catch (error) {
+      console.error(`Failed to save exam results to ${adapter.name}:`, error);
+      // Check if it's a quota exceeded error
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        console.error('Storage quota exceeded - consider clearing old history');
+      }
+
+      const fallback = this.getFallbackAdapter();
+      if (fallback) {
+        await fallback.saveResults(results);
       }
+    }
+    this.notifyResultsChanged();
+  }
+
+  /**
+   * Save one new result without rewriting the rest of the history
+   */
+  async appendResult(result: ExamResult): Promise<void> {
+    await this.writeResult(result);
+    this.notifyResultsChanged();
+  }
+
+  /**
+   * Save changes to a result that is already stored, such as its note or statistics exclusion
+   */
+  async updateResult(result: ExamResult): Promise<void> {
+    await this.writeResult(result);
+    this.notifyResultsChanged();
+  }
+
+  /**
+   * Delete the result with the given timestamp
+   */
+  async deleteResult(timestamp: string): Promise<void> {
+    const adapter = this.getActiveAdapter();
+    try {
+      await adapter.deleteResult(timestamp);
     } catch (error) {
-      console.error('Failed to save exam results:', error);
-      // Fallback to localStorage if file save fails
-      this.saveToLocalStorage(results);
+      console.error(`Failed to delete exam result from ${adapter.name}:`, error);
+      await this.getFallbackAdapter()?.deleteResult(timestamp);
     }
+    this.notifyResultsChanged();
   }
 
   /**
-   * Load exam results from persistent storage
+   * Call the listener whenever another tab changes the stored results
+   * Returns a function that stops listening
+   */
+  subscribeToResultChanges(listener: () => void): () => void {
+    const channel = this.syncChannel;
+    if (!channel) {
+      return () => {};
+    }
+
+    const handleMessage = (event: MessageEvent<SyncMessage>) => {
+      if (event.data?.type === 'results-changed') {
+        listener();
+      }
+    };
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  }
+
+  /**
+   * Load exam results from persistent storage, upgrading older records to the current schema
    */
   async loadResults(): Promise<ExamResult[]> {
     try {
-      // Try to load from file system first
-      if (this.isFileSystemAvailable()) {
-        return await this.loadFromFile();
-      } else {
-        // Fallback to localStorage
-        return this.loadFromLocalStorage();
-      }
+      return await this.loadFromAdapter(this.getActiveAdapter());
     } catch (error) {
       console.error('Failed to load exam results:', error);
-      // Fallback to localStorage
-      return this.loadFromLocalStorage();
+
+      const fallback = this.getFallbackAdapter();
+      if (!fallback) {
+        return [];
+      }
+      try {
+        return await this.loadFromAdapter(fallback);
+      } catch (fallbackError) {
+        console.error(`Failed to load exam results from ${fallback.name}:`, fallbackError);
+        return [];
+      }
     }
   }
 
+  /**
+   * Report from the most recent load's migration pass, or null if nothing has been loaded yet
+   */
+  getMigrationReport(): MigrationReport | null {
+    return this.migrationReport;
+  }
+
   /**
    * Clear all stored exam results
    */
   async clearResults(): Promise<void> {
     try {
-      if (this.isFileSystemAvailable()) {
-        await this.deleteFile();
-      } else {
-        localStorage.removeItem(STORAGE_KEY);
-      }
+      await this.getActiveAdapter().clearResults();
     } catch (error) {
       console.error('Failed to clear exam results:', error);
-      localStorage.removeItem(STORAGE_KEY);
+      await this.getFallbackAdapter()?.clearResults();
     }
+    this.notifyResultsChanged();
   }
 
   /**
-   * Check if file system API is available
+   * Serialize the exam history as a versioned JSON export document
    */
-  private isFileSystemAvailable(): boolean {
-    // Check for Electron
-    if (typeof window !== 'undefined' && (window as any).electron) {
-      return true;
-    }
+  async exportHistory(): Promise<string> {
+    const exportDocument: HistoryExportDocument = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      results: await this.loadResults()
+    };
+    return JSON.stringify(exportDocument, null, 2);
+  }
 
-    // Check for Tauri
-    if (typeof window !== 'undefined' && (window as any).__TAURI__) {
-      return true;
+  /**
+   * Validate an exported history document and merge it into the stored history
+   * Results are matched by timestamp; ones already stored are kept as they are
+   */
+  async importHistory(json: string): Promise<HistoryImportSummary> {
+    const imported = this.parseExportDocument(json);
+    const existing = await this.loadResults();
+    const existingTimestamps = new Set(existing.map(r => r.timestamp));
+
+    const newResults = imported.filter(r => !existingTimestamps.has(r.timestamp));
+    const merged = [...existing, ...newResults].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    for (const result of newResults) {
+      await this.writeResult(result);
     }
-
-    // Check for File System Access API (modern browsers)
-    if (typeof window !== 'undefined' && 'showSaveFilePicker' in window) {
-      return false; // We'll use localStorage for now in browsers
+    if (newResults.length > 0) {
+      this.notifyResultsChanged();
     }
 
-    return false;
+    return {
+      added: newResults.length,
+      duplicates: imported.length - newResults.length,
+      results: merged
+    };
   }
 
   /**
-   * Save to file system (Electron/Tauri)
+   * Parse and validate an export document, throwing HistoryImportError on problems
    */
-  private async saveToFile(results: ExamResult[]): Promise<void> {
-    const data = JSON.stringify(results, null, 2);
+  private parseExportDocument(json: string): ExamResult[] {
+    let parsed;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new HistoryImportError('The file is not valid JSON.');
+    }
 
-    // Electron
-    if ((window as any).electron) {
-      await (window as any).electron.writeFile(STORAGE_FILE, data);
-      return;
+    if (!parsed || typeof parsed !== 'object' || parsed.format !== EXPORT_FORMAT) {
+      throw new HistoryImportError('The file is not a C++ Mock Exam history export.');
     }
 
-    // Tauri
-    if ((window as any).__TAURI__) {
-      const { writeTextFile, BaseDirectory } = (window as any).__TAURI__.fs;
-      await writeTextFile(STORAGE_FILE, data, { dir: BaseDirectory.AppData });
-      return;
+    if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+      throw new HistoryImportError(
+        `The file uses export version ${parsed.version}, which this version of the app cannot read.`
+      );
     }
 
-    throw new Error('File system not available');
+    if (!Array.isArray(parsed.results)) {
+      throw new HistoryImportError('The file does not contain a list of results.');
+    }
+
+    // Upgrade records from older exports, rejecting the file if any are unusable
+    const results: ExamResult[] = parsed.results.map((result: unknown, index: number) => {
+      try {
+        return migrateResult(result);
+      } catch (error) {
+        if (error instanceof MigrationError) {
+          throw new HistoryImportError(`Result ${index + 1} is ${error.message}.`);
+        }
+        throw error;
+      }
+    });
+
+    // Results are stored by timestamp, so only the first copy of a repeated one is kept
+    const seen = new Set<string>();
+    return results.filter(result => {
+      if (seen.has(result.timestamp)) {
+        return false;
+      }
+      seen.add(result.timestamp);
+      return true;
+    });
   }
 
   /**
-   * Load from file system (Electron/Tauri)
+   * Checkpoint the in-progress exam session
    */
-  private async loadFromFile(): Promise<ExamResult[]> {
-    // Electron
-    if ((window as any).electron) {
-      const data = await (window as any).electron.readFile(STORAGE_FILE);
-      return JSON.parse(data);
+  async saveSession(session: ExamSession): Promise<void> {
+    try {
+      await this.getActiveAdapter().setItem(SESSION_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('Failed to save exam session:', error);
     }
+  }
 
-    // Tauri
-    if ((window as any).__TAURI__) {
-      const { readTextFile, BaseDirectory } = (window as any).__TAURI__.fs;
-      const data = await readTextFile(STORAGE_FILE, { dir: BaseDirectory.AppData });
-      return JSON.parse(data);
-    }
+  /**
+   * Load the checkpointed exam session, if there is one
+   */
+  async loadSession(): Promise<ExamSession | null> {
+    try {
+      const adapter = this.getActiveAdapter();
+      const saved = await adapter.getItem(SESSION_KEY);
+      if (!saved) {
+        return null;
+      }
+
+      const parsed = JSON.parse(saved);
+
+      // Validate the data structure
+      if (!parsed ||
+          !Array.isArray(parsed.questionIds) ||
+          !Array.isArray(parsed.markedForReview) ||
+          typeof parsed.selectedAnswers !== 'object' ||
+          typeof parsed.currentQuestion !== 'number' ||
+          typeof parsed.timeRemaining !== 'number') {
+        console.error('Invalid exam session format - discarding');
+        await adapter.removeItem(SESSION_KEY);
+        return null;
+      }
 
-    throw new Error('File system not available');
+      return parsed;
+    } catch (error) {
+      console.error('Failed to load exam session:', error);
+      return null;
+    }
   }
 
   /**
-   * Delete file from file system
+   * Remove the checkpointed exam session
    */
-  private async deleteFile(): Promise<void> {
-    // Electron
-    if ((window as any).electron) {
-      await (window as any).electron.deleteFile(STORAGE_FILE);
-      return;
+  async clearSession(): Promise<void> {
+    try {
+      await this.getActiveAdapter().removeItem(SESSION_KEY);
+    } catch (error) {
+      console.error('Failed to clear exam session:', error);
     }
+  }
 
-    // Tauri
-    if ((window as any).__TAURI__) {
-      const { removeFile, BaseDirectory } = (window as any).__TAURI__.fs;
-      await removeFile(STORAGE_FILE, { dir: BaseDirectory.AppData });
-      return;
+  /**
+   * Save the spaced-repetition review deck
+   */
+  async saveReviewDeck(deck: ReviewDeck): Promise<void> {
+    try {
+      await this.getActiveAdapter().setItem(REVIEW_DECK_KEY, JSON.stringify(deck));
+    } catch (error) {
+      console.error('Failed to save review deck:', error);
     }
   }
 
   /**
-   * Save to localStorage (fallback)
+   * Load the spaced-repetition review deck
    */
-  private saveToLocalStorage(results: ExamResult[]): void {
+  async loadReviewDeck(): Promise<ReviewDeck> {
     try {
-      const data = JSON.stringify(results);
-      localStorage.setItem(STORAGE_KEY, data);
+      const saved = await this.getActiveAdapter().getItem(REVIEW_DECK_KEY);
+      if (!saved) {
+        return {};
+      }
+
+      const parsed = JSON.parse(saved);
 
-      // Verify the save was successful by reading it back
-      const verification = localStorage.getItem(STORAGE_KEY);
-      if (verification !== data) {
-        console.warn('localStorage save verification failed - data may not persist');
+      // Validate the data structure
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        console.error('Invalid review deck format - expected object');
+        return {};
       }
+
+      return parsed;
+    } catch (error) {
+      console.error('Failed to load review deck:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Append a result through the active adapter, falling back if it fails
+   */
+  private async writeResult(result: ExamResult): Promise<void> {
+    const adapter = this.getActiveAdapter();
+    try {
+      await adapter.appendResult(result);
     } catch (error) {
-      console.error('localStorage save failed:', error);
+      console.error(`Failed to save exam result to ${adapter.name}:`, error);
       // Check if it's a quota exceeded error
       if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        console.error('localStorage quota exceeded - consider clearing old history');
+        console.error('Storage quota exceeded - consider clearing old history');
+      }
+
+      const fallback = this.getFallbackAdapter();
+      if (fallback) {
+        await fallback.appendResult(result);
       }
     }
   }
 
   /**
-   * Load from localStorage (fallback)
+   * Tell other tabs that the stored results have changed
+   */
+  private notifyResultsChanged(): void {
+    const message: SyncMessage = { type: 'results-changed' };
+    this.syncChannel?.postMessage(message);
+  }
+
+  /**
+   * Save the user's custom exam presets
+   */
+  async savePresets(presets: ExamPreset[]): Promise<void> {
+    try {
+      await this.getActiveAdapter().setItem(PRESETS_KEY, JSON.stringify(presets));
+    } catch (error) {
+      console.error('Failed to save exam presets:', error);
+    }
+  }
+
+  /**
+   * Load the user's custom exam presets
    */
-  private loadFromLocalStorage(): ExamResult[] {
+  async loadPresets(): Promise<ExamPreset[]> {
     try {
-      const saved = localStorage.getItem(STORAGE_KEY);
+      const saved = await this.getActiveAdapter().getItem(PRESETS_KEY);
       if (!saved) {
         return [];
       }
@@ -191,68 +428,193 @@ export class StorageService {
 
       // Validate the data structure
       if (!Array.isArray(parsed)) {
-        console.error('Invalid history data format - expected array');
+        console.error('Invalid exam presets format - expected array');
         return [];
       }
 
-      // Validate each result has required fields
-      const validResults = parsed.filter(result => {
-        return result &&
-               typeof result.score === 'number' &&
-               typeof result.total === 'number' &&
-               typeof result.percentage === 'number' &&
-               typeof result.timestamp === 'string';
-      });
-
-      if (validResults.length !== parsed.length) {
-        console.warn(`Filtered out ${parsed.length - validResults.length} invalid results`);
-      }
-
-      return validResults;
+      return parsed.filter(preset =>
+        preset &&
+        typeof preset.id === 'string' &&
+        typeof preset.name === 'string' &&
+        typeof preset.questionCount === 'number' &&
+        typeof preset.durationMinutes === 'number' &&
+        typeof preset.passingPercentage === 'number' &&
+        typeof preset.moduleQuestionCount === 'number' &&
+        Array.isArray(preset.modules) &&
+        (preset.scoringStrategy === undefined || preset.scoringStrategy in SCORING_STRATEGY_LABELS)
+      );
     } catch (error) {
-      console.error('localStorage load failed:', error);
+      console.error('Failed to load exam presets:', error);
       return [];
     }
   }
 
   /**
-   * Test if localStorage is available and working
+   * Save the questions being written or edited in the authoring screen
    */
-  isStorageAvailable(): boolean {
+  async saveQuestionDrafts(drafts: Question[]): Promise<void> {
     try {
-      const testKey = '__storage_test__';
-      const testValue = 'test';
-      localStorage.setItem(testKey, testValue);
-      const retrieved = localStorage.getItem(testKey);
-      localStorage.removeItem(testKey);
-      return retrieved === testValue;
+      await this.getActiveAdapter().setItem(QUESTION_DRAFTS_KEY, JSON.stringify(drafts));
     } catch (error) {
-      console.error('localStorage is not available:', error);
-      return false;
+      console.error('Failed to save question drafts:', error);
     }
   }
 
   /**
-   * Get storage statistics
+   * Load the authoring screen's question drafts
+   * Drafts may be unfinished, so only their shape is checked, not the question bank rules
    */
-  getStorageInfo(): { itemCount: number; estimatedSize: number; available: boolean } {
+  async loadQuestionDrafts(): Promise<Question[]> {
     try {
-      const saved = localStorage.getItem(STORAGE_KEY);
+      const saved = await this.getActiveAdapter().getItem(QUESTION_DRAFTS_KEY);
       if (!saved) {
-        return { itemCount: 0, estimatedSize: 0, available: this.isStorageAvailable() };
+        return [];
       }
 
       const parsed = JSON.parse(saved);
-      const itemCount = Array.isArray(parsed) ? parsed.length : 0;
-      const estimatedSize = new Blob([saved]).size;
 
+      // Validate the data structure
+      if (!Array.isArray(parsed)) {
+        console.error('Invalid question drafts format - expected array');
+        return [];
+      }
+
+      return parsed.filter(draft =>
+        draft &&
+        typeof draft.id === 'number' &&
+        typeof draft.module === 'number' &&
+        typeof draft.question === 'string' &&
+        typeof draft.explanation === 'string' &&
+        Array.isArray(draft.options) &&
+        Array.isArray(draft.correct)
+      );
+    } catch (error) {
+      console.error('Failed to load question drafts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The next available adapter after the active one, if any
+   */
+  private getFallbackAdapter(): StorageAdapter | null {
+    const available = this.adapters.filter(a => a.isAvailable());
+    const activeIndex = this.activeAdapter ? available.indexOf(this.activeAdapter) : -1;
+    return available[activeIndex + 1] ?? null;
+  }
+
+  /**
+   * Load and upgrade results from one adapter, first moving over any legacy records it offers
+   */
+  private async loadFromAdapter(adapter: StorageAdapter): Promise<ExamResult[]> {
+    const movedReport = await this.moveLegacyResults(adapter);
+    // Upgraded records are re-appended, which can move them to the end of a file-backed history
+    const results = (await this.upgradeResults(adapter, await adapter.loadResults())).sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    // Surface problems from the move alongside the regular load report
+    if (movedReport && this.migrationReport) {
+      this.migrationReport = {
+        migrated: movedReport.migrated + this.migrationReport.migrated,
+        failed: [...movedReport.failed, ...this.migrationReport.failed]
+      };
+    }
+
+    return results;
+  }
+
+  /**
+   * One-time move of records left by an older backend into this adapter
+   */
+  private async moveLegacyResults(adapter: StorageAdapter): Promise<MigrationReport | null> {
+    const legacy = await adapter.takeLegacyResults?.();
+    if (!legacy) {
+      return null;
+    }
+
+    const { results, failedRecords, report } = migrateResults(legacy);
+    if (failedRecords.length > 0) {
+      await this.setAsideUnmigrated(adapter, failedRecords);
+    }
+    // Added one at a time, so results another tab has already saved here are kept
+    for (const result of results) {
+      await adapter.appendResult(result);
+    }
+    await adapter.commitLegacyResults?.();
+    return report;
+  }
+
+  /**
+   * Run loaded records through the migration pipeline
+   * Upgraded records are written back once, and records that cannot be migrated are
+   * set aside under their own key rather than dropped. Only those records are written,
+   * one at a time, so a result another tab appends meanwhile is never overwritten
+   */
+  private async upgradeResults(adapter: StorageAdapter, parsed: unknown[]): Promise<ExamResult[]> {
+    const { results, failedRecords, report } = migrateResults(parsed);
+    this.migrationReport = report;
+
+    if (failedRecords.length > 0) {
+      console.warn(`${failedRecords.length} results could not be migrated:`, report.failed);
+      await this.setAsideUnmigrated(adapter, failedRecords);
+      for (const { timestamp } of report.failed) {
+        if (timestamp !== undefined) {
+          await adapter.deleteResult(timestamp);
+        }
+      }
+    }
+
+    const storedVersions = new Map(parsed.map(record => {
+      const { timestamp, schemaVersion } = (record ?? {}) as { timestamp?: unknown; schemaVersion?: unknown };
+      return [timestamp, schemaVersion];
+    }));
+    for (const result of results.filter(r => storedVersions.get(r.timestamp) !== r.schemaVersion)) {
+      await adapter.appendResult(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Keep records that failed migration so they can be recovered by hand
+   */
+  private async setAsideUnmigrated(adapter: StorageAdapter, records: unknown[]): Promise<void> {
+    try {
+      const saved = await adapter.getItem(UNMIGRATED_KEY);
+      const parsed = saved ? JSON.parse(saved) : [];
+      const existing: unknown[] = Array.isArray(parsed) ? parsed : [];
+      // Records without a timestamp can't be removed from the history, so they come back on
+      // every load; only keep one copy of each
+      const known = new Set(existing.map(record => JSON.stringify(record)));
+      const added = records.filter(record => !known.has(JSON.stringify(record)));
+      await adapter.setItem(UNMIGRATED_KEY, JSON.stringify([...existing, ...added]));
+    } catch (error) {
+      console.error('Failed to set aside unmigrated results:', error);
+    }
+  }
+
+  /**
+   * Test if a persistent storage backend is available
+   */
+  isStorageAvailable(): boolean {
+    return this.adapters.some(a => !(a instanceof MemoryStorageAdapter) && a.isAvailable());
+  }
+
+  /**
+   * Get storage statistics
+   */
+  async getStorageInfo(): Promise<{ adapter: string; itemCount: number; estimatedSize: number; available: boolean }> {
+    try {
+      const results = await this.loadResults();
       return {
-        itemCount,
-        estimatedSize,
+        adapter: this.getActiveAdapter().name,
+        itemCount: results.length,
+        estimatedSize: new Blob([JSON.stringify(results)]).size,
         available: this.isStorageAvailable()
       };
-    } catch (error) {
-      return { itemCount: 0, estimatedSize: 0, available: false };
+    } catch {
+      return { adapter: 'none', itemCount: 0, estimatedSize: 0, available: false };
     }
   }
 }
@@ -2,17 +2,42 @@ export interface Question {
   id: number;
   type: 'single' | 'multiple';
   module: number;
+  /** Entries from MODULE_TOPICS for this question's module */
+  topics?: string[];
   question: string;
   options: string[];
+  /** Options that keep their authored position when options are shuffled, e.g. "All of the above" */
+  pinnedOptions?: number[];
   correct: number[];
   explanation: string;
+  /** What the question's ```cpp snippet prints, checked by compiling and running it (npm run verify:snippets) */
+  expectedOutput?: string;
 }
 
+/**
+ * Selected option indices per question, always in the question's authored (canonical) order
+ */
 export interface SelectedAnswers {
   [questionId: number]: number[];
 }
 
+/**
+ * Order each question's options are shown in for an attempt, as canonical option indices
+ * by display position
+ */
+export interface OptionOrders {
+  [questionId: number]: number[];
+}
+
+/**
+ * Seconds spent on each question, accumulated across revisits
+ */
+export interface QuestionTimes {
+  [questionId: number]: number;
+}
+
 export interface ModuleScore {
+  /** Points earned, fractional under partial-credit scoring */
   correct: number;
   total: number;
 }
@@ -21,41 +46,271 @@ export interface ModuleScores {
   [moduleId: number]: ModuleScore;
 }
 
+export interface TopicScores {
+  [topic: string]: ModuleScore;
+}
+
 export interface QuestionResult {
   id: number;
+  /** Missing on results saved before it was recorded */
+  module?: number;
   question: string;
   userAnswer: number[];
   correctAnswer: number[];
   explanation: string;
   options: string[];
+  /** Seconds the question was on screen; missing on results saved before it was recorded */
+  timeSpentSeconds?: number;
+  /** Order the options were shown in, see OptionOrders; missing when they were shown in authored order */
+  displayOrder?: number[];
+}
+
+/**
+ * Performance on a single question aggregated across the whole history
+ */
+export interface QuestionStats {
+  id: number;
+  module: number | null;
+  question: string;
+  timesSeen: number;
+  timesCorrect: number;
+  /** Text of the incorrect option picked most often, if any */
+  mostCommonWrongOption: string | null;
+  mostCommonWrongCount: number;
+  lastSeen: string;
 }
 
 export interface ExamResult {
+  /** Version of the stored record layout, see RESULT_SCHEMA_VERSION */
+  schemaVersion: number;
+  /** Points earned, fractional under partial-credit scoring */
   score: number;
   total: number;
   percentage: number;
+  /** Pass mark the attempt was taken under, as a percentage */
+  passingPercentage: number;
+  /** How answers were scored; missing means strict */
+  scoringStrategy?: ScoringStrategy;
   moduleScores: ModuleScores;
+  topicScores?: TopicScores;
   timestamp: string;
   questions: QuestionResult[];
-  examMode?: ExamMode;
-  selectedModule?: number | null;
+  examMode: ExamMode;
+  selectedModule: number | null;
+  selectedTopic?: string | null;
+  seed?: string;
+  /** Custom preset the attempt was taken under; missing for the standard exam */
+  presetId?: string;
+  /** Preset name at the time of the attempt, so history can label it after the preset is deleted */
+  presetName?: string;
+  /** Time the attempt was open for, including untimed sessions; missing on older results */
+  timeSpentSeconds?: number;
+  /** Time limit the attempt was taken under; missing for untimed modes and on older results */
+  durationSeconds?: number;
+  /** Free-text annotation added from the history screen, e.g. "open book" */
+  note?: string;
+  /** Kept in the history but left out of graphs, averages and question analytics */
+  excludedFromStats?: boolean;
+}
+
+/**
+ * User-editable fields of a stored result
+ */
+export type ResultAnnotations = Partial<Pick<ExamResult, 'note' | 'excludedFromStats'>>;
+
+/**
+ * Change in one module's score between two attempts
+ * Either side is null when the module did not appear in that attempt
+ */
+export interface ModuleComparison {
+  module: number;
+  before: ModuleScore | null;
+  after: ModuleScore | null;
+  /** Difference in percentage points, or null unless both attempts include the module */
+  delta: number | null;
+}
+
+/**
+ * A question answered in both attempts whose correctness changed
+ */
+export interface QuestionFlip {
+  id: number;
+  question: string;
+}
+
+/**
+ * Differences between an earlier and a later attempt
+ */
+export interface AttemptComparison {
+  before: ExamResult;
+  after: ExamResult;
+  percentageDelta: number;
+  moduleComparisons: ModuleComparison[];
+  /** Wrong (or unanswered) in the earlier attempt, right in the later one */
+  improved: QuestionFlip[];
+  /** Right in the earlier attempt, wrong in the later one */
+  regressed: QuestionFlip[];
+  /** Number of questions that appeared in both attempts */
+  sharedQuestions: number;
+  /** Difference in time spent, or null if either attempt did not record it */
+  timeDelta: number | null;
+}
+
+/**
+ * Where an attempt's time went, built from its per-question times
+ */
+export interface PacingReport {
+  totalSeconds: number;
+  averageSeconds: number;
+  /** Questions that took longest, slowest first */
+  slowest: { id: number; question: string; seconds: number; isCorrect: boolean }[];
+  byModule: { module: number; seconds: number; questions: number }[];
+}
+
+/**
+ * Progress against an even split of the exam's time across its questions
+ */
+export interface PaceStatus {
+  /** Seconds ahead of (positive) or behind (negative) the budget */
+  offsetSeconds: number;
+  /** More than one question's worth of time behind */
+  isBehind: boolean;
+}
+
+/**
+ * Portable, versioned document produced by exporting the exam history
+ */
+export interface HistoryExportDocument {
+  format: 'cpp-mock-exam-history';
+  version: number;
+  exportedAt: string;
+  results: ExamResult[];
+}
+
+/**
+ * Questions written or edited in the authoring screen, exported as a patch for the question bank
+ * Each question replaces the bank question with the same id, or is added to its module's file
+ */
+export interface QuestionBundleDocument {
+  format: 'cpp-mock-exam-questions';
+  version: number;
+  exportedAt: string;
+  questions: Question[];
+}
+
+/**
+ * Outcome of upgrading stored results to the current schema
+ */
+export interface MigrationReport {
+  /** Results that were upgraded from an older schema version */
+  migrated: number;
+  /** Results that could not be upgraded, by position in the stored list */
+  failed: { index: number; timestamp?: string; reason: string }[];
+}
+
+export interface HistoryImportSummary {
+  /** Results in the file that were not already in the history */
+  added: number;
+  /** Results in the file whose timestamp already existed and were skipped */
+  duplicates: number;
+  results: ExamResult[];
+}
+
+/**
+ * How a question's answer is turned into points (0-1)
+ * 'strict' gives a point only for exactly the correct options, as in the real exam
+ * 'proportional' gives the share of correct options picked
+ * 'penalize-wrong' is proportional, minus the same share for each incorrect option picked, never below 0
+ */
+export type ScoringStrategy = 'strict' | 'proportional' | 'penalize-wrong';
+
+export const SCORING_STRATEGY_LABELS: Record<ScoringStrategy, string> = {
+  strict: 'Strict (all or nothing)',
+  proportional: 'Partial credit',
+  'penalize-wrong': 'Partial credit, wrong picks deducted'
+};
+
+/**
+ * 'practice' is untimed and lets each question be checked as you go
+ * 'review' is a practice-style session serving only spaced-repetition questions that are due
+ * 'retry' re-asks the questions missed in an earlier attempt, with their options reshuffled
+ * 'topic' is a practice-style drill on the questions tagged with a single topic
+ */
+export type ExamMode = 'full' | 'module' | 'practice' | 'review' | 'retry' | 'topic';
+
+/**
+ * SM-2 scheduling state for one question in the spaced-repetition deck
+ */
+export interface ReviewCard {
+  questionId: number;
+  easeFactor: number;
+  /** Days until the next review */
+  interval: number;
+  /** Consecutive successful reviews */
+  repetitions: number;
+  dueDate: string;
+  lastReviewed: string;
+}
+
+export interface ReviewDeck {
+  [questionId: number]: ReviewCard;
 }
 
-export type ExamMode = 'full' | 'module';
+/**
+ * Serializable snapshot of an in-progress exam, checkpointed so that a reload
+ * or closed tab can be resumed. Questions are stored by id in exam order and
+ * rehydrated from the question bank on resume.
+ */
+export interface ExamSession {
+  questionIds: number[];
+  currentQuestion: number;
+  selectedAnswers: SelectedAnswers;
+  markedForReview: number[];
+  checkedQuestions: number[];
+  timeRemaining: number;
+  /** Missing on sessions saved before time spent was tracked */
+  elapsedSeconds?: number;
+  questionTimes?: QuestionTimes;
+  examMode: ExamMode;
+  selectedModule: number | null;
+  selectedTopic: string | null;
+  seed: string;
+  /** Missing on sessions saved before presets existed */
+  presetId?: string | null;
+  savedAt: string;
+}
 
 export interface ExamState {
   examStarted: boolean;
   currentQuestion: number;
   selectedAnswers: SelectedAnswers;
   markedForReview: Set<number>;
+  checkedQuestions: Set<number>;
   timeRemaining: number;
+  /** Seconds the current attempt has been open, counted in every mode */
+  elapsedSeconds: number;
+  questionTimes: QuestionTimes;
+  /** Derived from the seed, so a resumed session shows the same order without storing it */
+  optionOrders: OptionOrders;
   examSubmitted: boolean;
   showHistory: boolean;
   examQuestions: Question[];
   results: ExamResult | null;
   resultsHistory: ExamResult[];
+  migrationReport: MigrationReport | null;
+  reviewDeck: ReviewDeck;
   examMode: ExamMode;
   selectedModule: number | null;
+  selectedTopic: string | null;
+  seed: string;
+  savedSession: ExamSession | null;
+  presets: ExamPreset[];
+  /** Custom preset of the current exam, or null for the standard exam */
+  presetId: string | null;
+  showSettings: boolean;
+  /** Questions being written or edited in the authoring screen, kept until exported or discarded */
+  questionDrafts: Question[];
+  showAuthoring: boolean;
 }
 
 export const MODULE_NAMES: Record<number, string> = {
@@ -73,19 +328,71 @@ export const MODULE_NAMES: Record<number, string> = {
 export const MODULE_TOPICS: Record<number, string[]> = {
   1: ["vector", "deque", "list", "forward_list", "array", "Container adapters (stack, queue, priority_queue)"],
   2: ["set", "multiset", "map", "multimap", "unordered_set", "unordered_map", "Hash tables"],
-  3: ["find", "count", "search", "for_each", "equal", "mismatch", "all_of/any_of/none_of"],
-  4: ["copy", "transform", "replace", "remove", "unique", "reverse", "rotate", "partition"],
+  3: ["find", "count", "search", "for_each", "equal", "mismatch", "all_of/any_of/none_of", "lexicographical_compare"],
+  4: ["copy", "transform", "replace", "remove", "unique", "reverse", "rotate", "partition", "fill/generate", "swap_ranges", "shuffle"],
   5: ["sort", "stable_sort", "partial_sort", "nth_element", "binary_search", "lower_bound", "upper_bound"],
   6: ["merge", "inplace_merge", "set operations", "includes", "Heap operations", "min/max algorithms"],
   7: ["Function objects", "std::function", "std::bind", "Lambdas", "std::reference_wrapper", "Deprecated adapters"],
   8: ["Stream manipulators", "File I/O", "String streams", "Stream state", "Formatting", "Binary vs text mode"],
-  9: ["Function templates", "Class templates", "Template specialization", "Variadic templates", "SFINAE", "Concepts"]
+  9: ["Template fundamentals", "Template parameters", "Function templates", "Class templates", "Template specialization", "Variadic templates", "SFINAE", "Concepts"]
 };
 
+/**
+ * Describes how a full exam is stratified across modules
+ */
+export interface ExamBlueprint {
+  /** Number of questions drawn from each module */
+  moduleCounts: Record<number, number>;
+  /** Optional share (0-1) of multiple-choice questions within each module */
+  multipleRatio?: number;
+}
+
+/**
+ * Mirrors the CPP exam's per-block item weights, scaled to a 40 question paper
+ */
+export const DEFAULT_EXAM_BLUEPRINT: ExamBlueprint = {
+  moduleCounts: {
+    1: 5,
+    2: 5,
+    3: 5,
+    4: 5,
+    5: 6,
+    6: 6,
+    7: 3,
+    8: 3,
+    9: 2
+  }
+};
+
+/**
+ * A user-defined exam configuration replacing the fixed EXAM_CONSTANTS values,
+ * e.g. 20 questions in 30 minutes with an 80% pass mark, drawn only from modules 5-7
+ */
+export interface ExamPreset {
+  id: string;
+  name: string;
+  questionCount: number;
+  durationMinutes: number;
+  passingPercentage: number;
+  /** Questions in a module quiz taken under this preset */
+  moduleQuestionCount: number;
+  /** Modules the preset's exams draw from */
+  modules: number[];
+  /** Missing on presets saved before scoring was configurable, meaning strict */
+  scoringStrategy?: ScoringStrategy;
+}
+
+/**
+ * Current layout version of stored ExamResult records
+ * Bump this and add a step to the migration pipeline whenever the layout changes
+ */
+export const RESULT_SCHEMA_VERSION = 2;
+
 export const EXAM_CONSTANTS = {
   TOTAL_QUESTIONS: 40,
   DURATION_MINUTES: 65,
   PASSING_PERCENTAGE: 70,
   MODULE_QUESTIONS: 10,
-  MODULE_DURATION_MINUTES: 15
+  MODULE_DURATION_MINUTES: 15,
+  REVIEW_SESSION_QUESTIONS: 20
 } as const;
@@ -0,0 +1,186 @@
+import type {
+  AttemptComparison,
+  ExamResult,
+  ModuleComparison,
+  ModuleScore,
+  PacingReport,
+  Question,
+  QuestionFlip,
+  QuestionStats
+} from '../types/exam.types';
+import { isAnswerCorrect } from './exam.utils';
+
+/**
+ * Attempts that count towards statistics, leaving out ones the user has excluded
+ */
+export const getCountedResults = (history: ExamResult[]): ExamResult[] =>
+  history.filter(result => !result.excludedFromStats);
+
+/**
+ * Aggregate every stored attempt at each question by question id
+ * Wrong options are tallied by text, since option order can differ between attempts
+ */
+export const aggregateQuestionStats = (history: ExamResult[], questionBank: Question[]): QuestionStats[] => {
+  const modulesById = new Map(questionBank.map(q => [q.id, q.module]));
+  const statsById = new Map<number, QuestionStats>();
+  const wrongOptionCounts = new Map<number, Map<string, number>>();
+
+  history.forEach(result => {
+    result.questions?.forEach(question => {
+      let stats = statsById.get(question.id);
+      if (!stats) {
+        stats = {
+          id: question.id,
+          module: question.module ?? modulesById.get(question.id) ?? null,
+          question: question.question,
+          timesSeen: 0,
+          timesCorrect: 0,
+          mostCommonWrongOption: null,
+          mostCommonWrongCount: 0,
+          lastSeen: result.timestamp
+        };
+        statsById.set(question.id, stats);
+      }
+
+      stats.timesSeen++;
+      if (isAnswerCorrect(question.userAnswer, question.correctAnswer)) {
+        stats.timesCorrect++;
+      }
+      if (new Date(result.timestamp).getTime() > new Date(stats.lastSeen).getTime()) {
+        stats.lastSeen = result.timestamp;
+      }
+
+      const counts = wrongOptionCounts.get(question.id) ?? new Map<string, number>();
+      question.userAnswer
+        .filter(i => !question.correctAnswer.includes(i) && question.options[i] !== undefined)
+        .forEach(i => {
+          const option = question.options[i];
+          const count = (counts.get(option) ?? 0) + 1;
+          counts.set(option, count);
+          if (count > stats.mostCommonWrongCount) {
+            stats.mostCommonWrongOption = option;
+            stats.mostCommonWrongCount = count;
+          }
+        });
+      wrongOptionCounts.set(question.id, counts);
+    });
+  });
+
+  return [...statsById.values()];
+};
+
+/**
+ * Short single-line preview of a question's markdown, without its code blocks
+ * (unless the text is nothing but code)
+ */
+export const getQuestionPreview = (markdown: string, maxLength: number = 120): string => {
+  const withoutCode = markdown.replace(/```[\s\S]*?```/g, ' ');
+  const text = (withoutCode.trim() ? withoutCode : markdown.replace(/```\w*/g, ' '))
+    .replace(/[`*_]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
+
+const getScorePercentage = (score: ModuleScore): number =>
+  score.total > 0 ? Math.round((score.correct / score.total) * 100) : 0;
+
+/**
+ * Compare two attempts, ordering them so `before` is the earlier one
+ * Questions are matched by id, so flips are found even when the papers only partly overlap
+ */
+export const compareAttempts = (first: ExamResult, second: ExamResult): AttemptComparison => {
+  const [before, after] = new Date(first.timestamp).getTime() <= new Date(second.timestamp).getTime()
+    ? [first, second]
+    : [second, first];
+
+  const modules = [...new Set([
+    ...Object.keys(before.moduleScores),
+    ...Object.keys(after.moduleScores)
+  ].map(Number))].sort((a, b) => a - b);
+
+  const moduleComparisons: ModuleComparison[] = modules.map(module => {
+    const beforeScore = before.moduleScores[module] ?? null;
+    const afterScore = after.moduleScores[module] ?? null;
+    return {
+      module,
+      before: beforeScore,
+      after: afterScore,
+      delta: beforeScore && afterScore
+        ? getScorePercentage(afterScore) - getScorePercentage(beforeScore)
+        : null
+    };
+  });
+
+  const beforeById = new Map(before.questions.map(q => [q.id, q]));
+  const improved: QuestionFlip[] = [];
+  const regressed: QuestionFlip[] = [];
+  let sharedQuestions = 0;
+
+  after.questions.forEach(afterQuestion => {
+    const beforeQuestion = beforeById.get(afterQuestion.id);
+    if (!beforeQuestion) return;
+
+    sharedQuestions++;
+    const wasCorrect = isAnswerCorrect(beforeQuestion.userAnswer, beforeQuestion.correctAnswer);
+    const isCorrect = isAnswerCorrect(afterQuestion.userAnswer, afterQuestion.correctAnswer);
+    if (!wasCorrect && isCorrect) {
+      improved.push({ id: afterQuestion.id, question: afterQuestion.question });
+    } else if (wasCorrect && !isCorrect) {
+      regressed.push({ id: afterQuestion.id, question: afterQuestion.question });
+    }
+  });
+
+  return {
+    before,
+    after,
+    percentageDelta: after.percentage - before.percentage,
+    moduleComparisons,
+    improved,
+    regressed,
+    sharedQuestions,
+    timeDelta: before.timeSpentSeconds !== undefined && after.timeSpentSeconds !== undefined
+      ? after.timeSpentSeconds - before.timeSpentSeconds
+      : null
+  };
+};
+
+/**
+ * Summarize where an attempt's time went, or return null if it has no per-question times
+ */
+export const getPacingReport = (result: ExamResult, slowestCount: number = 5): PacingReport | null => {
+  const timed = result.questions.filter(q => q.timeSpentSeconds !== undefined);
+  if (timed.length === 0) {
+    return null;
+  }
+
+  const totalSeconds = timed.reduce((sum, q) => sum + (q.timeSpentSeconds ?? 0), 0);
+
+  const slowest = [...timed]
+    .sort((a, b) => (b.timeSpentSeconds ?? 0) - (a.timeSpentSeconds ?? 0))
+    .slice(0, slowestCount)
+    .map(q => ({
+      id: q.id,
+      question: q.question,
+      seconds: q.timeSpentSeconds ?? 0,
+      isCorrect: isAnswerCorrect(q.userAnswer, q.correctAnswer)
+    }));
+
+  const moduleTotals = new Map<number, { seconds: number; questions: number }>();
+  timed.forEach(q => {
+    if (q.module === undefined) return;
+    const totals = moduleTotals.get(q.module) ?? { seconds: 0, questions: 0 };
+    totals.seconds += q.timeSpentSeconds ?? 0;
+    totals.questions++;
+    moduleTotals.set(q.module, totals);
+  });
+
+  return {
+    totalSeconds,
+    averageSeconds: Math.round(totalSeconds / timed.length),
+    slowest,
+    byModule: [...moduleTotals.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([module, totals]) => ({ module, ...totals }))
+  };
+};
@@ -0,0 +1,141 @@
+import type { Question, QuestionBundleDocument } from '../types/exam.types';
+import { validateQuestion } from './questionBank.utils';
+import { lintQuestion } from './questionLint.utils';
+
+export const QUESTION_BUNDLE_FORMAT = 'cpp-mock-exam-questions';
+export const QUESTION_BUNDLE_VERSION = 1;
+
+/**
+ * Problems found in a draft: errors block export, warnings are lint suggestions
+ */
+export interface DraftCheck {
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * The id after the highest one in use by the bank or the drafts, so new questions never collide
+ */
+export const getNextQuestionId = (questionBank: Question[], drafts: Question[]): number =>
+  Math.max(0, ...questionBank.map(q => q.id), ...drafts.map(q => q.id)) + 1;
+
+/**
+ * An empty single-answer question with four options, ready to fill in
+ */
+export const createBlankQuestion = (id: number, module: number): Question => ({
+  id,
+  type: 'single',
+  module,
+  topics: [],
+  question: '',
+  options: ['', '', '', ''],
+  correct: [0],
+  explanation: ''
+});
+
+/**
+ * Drop optional fields left empty in the form, so they don't end up in the exported JSON
+ */
+export const normalizeDraft = (draft: Question): Question => {
+  const { topics, pinnedOptions, expectedOutput, ...question } = draft;
+  return {
+    ...question,
+    ...(topics && topics.length > 0 ? { topics } : {}),
+    ...(pinnedOptions && pinnedOptions.length > 0 ? { pinnedOptions } : {}),
+    ...(expectedOutput ? { expectedOutput } : {})
+  };
+};
+
+/**
+ * The bank with each draft replacing the question of the same id, or added after the others
+ */
+export const mergeQuestionDrafts = (questionBank: Question[], drafts: Question[]): Question[] => {
+  const draftsById = new Map(drafts.map(draft => [draft.id, draft]));
+  const bankIds = new Set(questionBank.map(q => q.id));
+  return [
+    ...questionBank.map(q => draftsById.get(q.id) ?? q),
+    ...drafts.filter(draft => !bankIds.has(draft.id))
+  ];
+};
+
+/**
+ * Check a draft against the schema, the other drafts, and (once it is valid) the lint rules,
+ * comparing it with the bank as it would be after merging every draft
+ */
+export const checkQuestionDraft = (draft: Question, questionBank: Question[], drafts: Question[]): DraftCheck => {
+  const errors = validateQuestion(normalizeDraft(draft));
+  if (drafts.some(other => other !== draft && other.id === draft.id)) {
+    errors.push(`another draft also uses id ${draft.id}`);
+  }
+  if (errors.length > 0) {
+    return { errors, warnings: [] };
+  }
+
+  // Other drafts still being written may be invalid, and the lint rules expect valid questions
+  const validDrafts = drafts.filter(other => other === draft || validateQuestion(normalizeDraft(other)).length === 0);
+  const mergedBank = mergeQuestionDrafts(questionBank, validDrafts.map(normalizeDraft));
+  const question = mergedBank.find(q => q.id === draft.id)!;
+  const findings = lintQuestion(question, mergedBank);
+
+  return {
+    errors: findings.filter(f => f.severity === 'error').map(f => f.message),
+    warnings: findings.filter(f => f.severity === 'warning').map(f => f.message)
+  };
+};
+
+/**
+ * Package drafts as a patch for the question bank, ordered by id
+ */
+export const createQuestionBundle = (drafts: Question[]): QuestionBundleDocument => ({
+  format: QUESTION_BUNDLE_FORMAT,
+  version: QUESTION_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  questions: drafts.map(normalizeDraft).sort((a, b) => a.id - b.id)
+});
+
+/**
+ * Apply a bundle to the per-module question files, keyed by file name (module-<n>.json)
+ * Edited questions keep their position, or move to the end of their new module's file;
+ * new questions are appended to their module's file, which is created if needed
+ */
+export const applyQuestionBundle = (
+  files: Record<string, Question[]>,
+  bundle: QuestionBundleDocument
+): Record<string, Question[]> => {
+  const bundled = new Map(bundle.questions.map(q => [q.id, q]));
+  const updated: Record<string, Question[]> = {};
+
+  Object.entries(files).forEach(([file, questions]) => {
+    updated[file] = questions
+      .map(q => {
+        const replacement = bundled.get(q.id);
+        if (replacement && `module-${replacement.module}.json` === file) {
+          bundled.delete(q.id);
+          return replacement;
+        }
+        return replacement ? null : q;
+      })
+      .filter((q): q is Question => q !== null);
+  });
+
+  bundled.forEach(question => {
+    const file = `module-${question.module}.json`;
+    updated[file] = [...(updated[file] ?? []), question];
+  });
+
+  return updated;
+};
+
+/**
+ * Parse an exported question bundle, throwing an Error with a user-facing message if it isn't one
+ */
+export const parseQuestionBundle = (json: string): QuestionBundleDocument => {
+  const parsed = JSON.parse(json);
+  if (!parsed || parsed.format !== QUESTION_BUNDLE_FORMAT || !Array.isArray(parsed.questions)) {
+    throw new Error('Not a question bundle exported from the authoring screen');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > QUESTION_BUNDLE_VERSION) {
+    throw new Error(`Unsupported question bundle version ${parsed.version}`);
+  }
+  return parsed as QuestionBundleDocument;
+};
@@ -1,20 +1,226 @@
-import type { Question, ExamResult, ModuleScores, SelectedAnswers } from '../types/exam.types';
+import type {
+  Question,
+  ExamBlueprint,
+  ExamMode,
+  ExamResult,
+  ExamSession,
+  ExamState,
+  ModuleScores,
+  OptionOrders,
+  PaceStatus,
+  QuestionTimes,
+  ScoringStrategy,
+  SelectedAnswers,
+  TopicScores
+} from '../types/exam.types';
+import { EXAM_CONSTANTS, MODULE_NAMES, RESULT_SCHEMA_VERSION } from '../types/exam.types';
+import { roundPoints, scoreAnswer } from './scoring.utils';
+
+export type RandomSource = () => number;
+
+/**
+ * Hash a seed string into a 32-bit integer (FNV-1a)
+ */
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Create a deterministic pseudo-random number generator (mulberry32) from a seed,
+ * so the same seed always produces the same exam paper
+ */
+export const createSeededRandom = (seed: string): RandomSource => {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Generate a short, shareable exam seed
+ */
+export const generateSeed = (): string => {
+  return Math.floor(Math.random() * 36 ** 8).toString(36).padStart(8, '0');
+};
+
+/**
+ * Unbiased Fisher-Yates shuffle, returns a new array
+ */
+export const shuffle = <T>(items: T[], random: RandomSource = Math.random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
 
 /**
  * Select random questions from the question bank
  */
-export const selectRandomQuestions = (questionBank: Question[], count: number): Question[] => {
-  const shuffled = [...questionBank].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, count);
+export const selectRandomQuestions = (
+  questionBank: Question[],
+  count: number,
+  random: RandomSource = Math.random
+): Question[] => {
+  return shuffle(questionBank, random).slice(0, count);
 };
 
 /**
  * Select random questions from a specific module
  */
-export const selectModuleQuestions = (questionBank: Question[], moduleNumber: number, count: number): Question[] => {
+export const selectModuleQuestions = (
+  questionBank: Question[],
+  moduleNumber: number,
+  count: number,
+  random: RandomSource = Math.random
+): Question[] => {
   const moduleQuestions = questionBank.filter(q => q.module === moduleNumber);
-  const shuffled = [...moduleQuestions].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, Math.min(count, moduleQuestions.length));
+  return shuffle(moduleQuestions, random).slice(0, Math.min(count, moduleQuestions.length));
+};
+
+/**
+ * Total number of questions a blueprint produces
+ */
+export const getBlueprintTotal = (blueprint: ExamBlueprint): number => {
+  return Object.values(blueprint.moduleCounts).reduce((sum, count) => sum + count, 0);
+};
+
+/**
+ * Select questions stratified by module according to an exam blueprint
+ * If the blueprint sets a multiple-choice ratio, each module honours it as far as its
+ * question pool allows and tops up with the other question type otherwise
+ */
+export const selectBlueprintQuestions = (
+  questionBank: Question[],
+  blueprint: ExamBlueprint,
+  random: RandomSource = Math.random
+): Question[] => {
+  const selected: Question[] = [];
+
+  Object.entries(blueprint.moduleCounts)
+    .sort(([a], [b]) => parseInt(a, 10) - parseInt(b, 10))
+    .forEach(([module, count]) => {
+      const moduleQuestions = shuffle(questionBank.filter(q => q.module === parseInt(module, 10)), random);
+
+      if (blueprint.multipleRatio === undefined) {
+        selected.push(...moduleQuestions.slice(0, count));
+        return;
+      }
+
+      const multiple = moduleQuestions.filter(q => q.type === 'multiple');
+      const single = moduleQuestions.filter(q => q.type === 'single');
+      const multipleCount = Math.min(multiple.length, Math.round(count * blueprint.multipleRatio));
+      const singleCount = Math.min(single.length, count - multipleCount);
+      const shortfall = count - multipleCount - singleCount;
+
+      selected.push(
+        ...multiple.slice(0, multipleCount + shortfall),
+        ...single.slice(0, singleCount)
+      );
+    });
+
+  // Interleave modules so the paper isn't answered block by block
+  return shuffle(selected, random);
+};
+
+/**
+ * Select random questions tagged with a specific topic
+ */
+export const selectTopicQuestions = (
+  questionBank: Question[],
+  topic: string,
+  count: number,
+  random: RandomSource = Math.random
+): Question[] => {
+  const topicQuestions = questionBank.filter(q => q.topics?.includes(topic));
+  return shuffle(topicQuestions, random).slice(0, count);
+};
+
+/**
+ * Number of questions in the bank tagged with each topic
+ */
+export const getTopicQuestionCounts = (questionBank: Question[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  questionBank.forEach(q => {
+    q.topics?.forEach(topic => {
+      counts[topic] = (counts[topic] ?? 0) + 1;
+    });
+  });
+  return counts;
+};
+
+/**
+ * Shuffled display order of a question's options, as canonical option indices
+ * Pinned options stay at their authored position
+ */
+export const shuffleOptionOrder = (question: Question, random: RandomSource = Math.random): number[] => {
+  const pinned = new Set(question.pinnedOptions ?? []);
+  const shuffled = shuffle(question.options.map((_, i) => i).filter(i => !pinned.has(i)), random);
+  return question.options.map((_, i) => pinned.has(i) ? i : shuffled.shift()!);
+};
+
+/**
+ * Option display orders for every question in an attempt
+ * Derived from the attempt's seed so a resumed or shared paper gets the same order back
+ */
+export const createOptionOrders = (questions: Question[], seed: string): OptionOrders => {
+  const random = createSeededRandom(`${seed}:options`);
+  return Object.fromEntries(questions.map(q => [q.id, shuffleOptionOrder(q, random)]));
+};
+
+/**
+ * Ids of the questions answered incorrectly or left blank in a result
+ */
+export const getIncorrectQuestionIds = (result: ExamResult): number[] => {
+  return result.questions
+    .filter(q => !isAnswerCorrect(q.userAnswer, q.correctAnswer))
+    .map(q => q.id);
+};
+
+/**
+ * Select the questions for a retry exam, in a fresh order
+ */
+export const selectRetryQuestions = (
+  questionBank: Question[],
+  questionIds: number[],
+  random: RandomSource = Math.random
+): Question[] => {
+  const retryIds = new Set(questionIds);
+  return shuffle(questionBank.filter(q => retryIds.has(q.id)), random);
+};
+
+/**
+ * Whether an exam type can be reproduced by anyone from its seed alone
+ */
+export const isShareableExam = (examMode: ExamMode): boolean => {
+  return examMode === 'full' || examMode === 'module' || examMode === 'practice' || examMode === 'topic';
+};
+
+/**
+ * Build a link that starts the same exam paper for anyone who opens it
+ */
+export const getExamShareUrl = (
+  examMode: ExamMode,
+  selectedModule: number | null,
+  selectedTopic: string | null,
+  seed: string
+): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set('exam', getExamTypeKey(examMode, selectedModule, selectedTopic));
+  url.searchParams.set('seed', seed);
+  return url.toString();
 };
 
 /**
@@ -26,6 +232,14 @@ export const formatTime = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+/**
+ * Whether a percentage meets the pass mark a result was taken under
+ * Also used for module and topic breakdowns within the result
+ */
+export const isPassingScore = (percentage: number, result: Pick<ExamResult, 'passingPercentage'>): boolean => {
+  return percentage >= result.passingPercentage;
+};
+
 /**
  * Check if an answer is correct
  */
@@ -34,52 +248,164 @@ export const isAnswerCorrect = (userAnswer: number[], correctAnswer: number[]):
     userAnswer.every(ans => correctAnswer.includes(ans));
 };
 
+/**
+ * Whether an exam mode is untimed and lets answers be checked as you go
+ */
+export const hasInstantFeedback = (examMode: ExamMode): boolean => {
+  return examMode === 'practice' || examMode === 'review' || examMode === 'topic';
+};
+
+/**
+ * Running score over the questions checked so far in practice mode
+ */
+export const getPracticeScore = (
+  examQuestions: Question[],
+  selectedAnswers: SelectedAnswers,
+  checkedQuestions: Set<number>
+): { correct: number; checked: number } => {
+  const checked = examQuestions.filter(q => checkedQuestions.has(q.id));
+  const correct = checked.filter(q => isAnswerCorrect(selectedAnswers[q.id] || [], q.correct)).length;
+  return { correct, checked: checked.length };
+};
+
+/**
+ * Key identifying the exam type a result belongs to, used to group history
+ * Exams taken under a custom preset are keyed separately from the standard exam
+ */
+export const getExamTypeKey = (
+  examMode: ExamMode,
+  selectedModule: number | null,
+  selectedTopic?: string | null,
+  presetId?: string | null
+): string => {
+  const prefix = presetId ? `preset:${presetId}:` : '';
+  if (examMode === 'module' && selectedModule != null) {
+    return `${prefix}module-${selectedModule}`;
+  }
+  if (examMode === 'topic' && selectedTopic != null) {
+    return `${prefix}topic-${selectedTopic}`;
+  }
+  return `${prefix}${examMode}`;
+};
+
+/**
+ * Human-readable name of an exam type
+ */
+export const getExamTypeLabel = (
+  examMode: ExamMode,
+  selectedModule: number | null = null,
+  selectedTopic?: string | null,
+  presetName?: string
+): string => {
+  if (presetName) {
+    return `${presetName}: ${getExamTypeLabel(examMode, selectedModule, selectedTopic)}`;
+  }
+  if (examMode === 'module' && selectedModule != null) {
+    return `Module ${selectedModule}: ${MODULE_NAMES[selectedModule]}`;
+  }
+  if (examMode === 'topic' && selectedTopic != null) {
+    return `Topic Drill: ${selectedTopic}`;
+  }
+  if (examMode === 'practice') {
+    return 'Practice Mode';
+  }
+  if (examMode === 'review') {
+    return 'Spaced Repetition Review';
+  }
+  if (examMode === 'retry') {
+    return 'Retry Wrong Answers';
+  }
+  return 'Full Mock Exam';
+};
+
 /**
  * Calculate exam results
+ * Scores are fractional unless the scoring strategy is strict
  */
 export const calculateResults = (
   examQuestions: Question[],
   selectedAnswers: SelectedAnswers,
-  examMode?: 'full' | 'module',
-  selectedModule?: number | null
+  examMode: ExamMode,
+  selectedModule: number | null,
+  seed?: string,
+  selectedTopic?: string | null,
+  questionTimes?: QuestionTimes,
+  passingPercentage: number = EXAM_CONSTANTS.PASSING_PERCENTAGE,
+  scoringStrategy: ScoringStrategy = 'strict',
+  optionOrders?: OptionOrders
 ): ExamResult => {
   let correct = 0;
   const moduleScores: ModuleScores = {};
+  const topicScores: TopicScores = {};
 
   examQuestions.forEach(question => {
     const userAnswer = selectedAnswers[question.id] || [];
-    const correctAnswer = question.correct;
-
-    const isCorrect = isAnswerCorrect(userAnswer, correctAnswer);
+    const points = scoreAnswer(userAnswer, question.correct, scoringStrategy);
 
-    if (isCorrect) correct++;
+    correct += points;
 
     if (!moduleScores[question.module]) {
       moduleScores[question.module] = { correct: 0, total: 0 };
     }
     moduleScores[question.module].total++;
-    if (isCorrect) moduleScores[question.module].correct++;
+    moduleScores[question.module].correct += points;
+
+    question.topics?.forEach(topic => {
+      if (!topicScores[topic]) {
+        topicScores[topic] = { correct: 0, total: 0 };
+      }
+      topicScores[topic].total++;
+      topicScores[topic].correct += points;
+    });
+  });
+
+  [...Object.values(moduleScores), ...Object.values(topicScores)].forEach(scores => {
+    scores.correct = roundPoints(scores.correct);
   });
 
   return {
-    score: correct,
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    score: roundPoints(correct),
     total: examQuestions.length,
     percentage: Math.round((correct / examQuestions.length) * 100),
+    passingPercentage,
+    scoringStrategy,
     moduleScores,
+    topicScores,
     timestamp: new Date().toISOString(),
     questions: examQuestions.map(q => ({
       id: q.id,
+      module: q.module,
       question: q.question,
       userAnswer: selectedAnswers[q.id] || [],
       correctAnswer: q.correct,
       explanation: q.explanation,
-      options: q.options
+      options: q.options,
+      timeSpentSeconds: questionTimes ? questionTimes[q.id] ?? 0 : undefined,
+      displayOrder: optionOrders?.[q.id]
     })),
     examMode,
-    selectedModule
+    selectedModule,
+    selectedTopic,
+    seed
   };
 };
 
+/**
+ * Compare progress with an even split of the exam's time across its questions
+ * (97.5 seconds each for a 65 minute, 40 question exam)
+ */
+export const getPaceStatus = (
+  answeredCount: number,
+  totalQuestions: number,
+  elapsedSeconds: number,
+  timeRemaining: number
+): PaceStatus => {
+  const budgetPerQuestion = (elapsedSeconds + timeRemaining) / totalQuestions;
+  const offsetSeconds = Math.round(answeredCount * budgetPerQuestion - elapsedSeconds);
+  return { offsetSeconds, isBehind: offsetSeconds < -budgetPerQuestion };
+};
+
 /**
  * Get answered questions count
  */
@@ -87,3 +413,38 @@ export const getAnsweredCount = (selectedAnswers: SelectedAnswers): number => {
   return Object.keys(selectedAnswers).filter(id => selectedAnswers[parseInt(id)]?.length > 0).length;
 };
 
+
+/**
+ * Build a serializable checkpoint of the in-progress exam
+ */
+export const createExamSession = (state: ExamState): ExamSession => ({
+  questionIds: state.examQuestions.map(q => q.id),
+  currentQuestion: state.currentQuestion,
+  selectedAnswers: state.selectedAnswers,
+  markedForReview: [...state.markedForReview],
+  checkedQuestions: [...state.checkedQuestions],
+  timeRemaining: state.timeRemaining,
+  elapsedSeconds: state.elapsedSeconds,
+  questionTimes: state.questionTimes,
+  examMode: state.examMode,
+  selectedModule: state.selectedModule,
+  selectedTopic: state.selectedTopic,
+  seed: state.seed,
+  presetId: state.presetId,
+  savedAt: new Date().toISOString()
+});
+
+/**
+ * Rehydrate a checkpointed session's questions from the question bank, in their original order
+ * Returns null if any question no longer exists in the bank
+ */
+export const restoreSessionQuestions = (session: ExamSession, questionBank: Question[]): Question[] | null => {
+  const questionsById = new Map(questionBank.map(q => [q.id, q]));
+  const questions = session.questionIds.map(id => questionsById.get(id));
+
+  if (questions.length === 0 || questions.some(q => q === undefined)) {
+    return null;
+  }
+
+  return questions as Question[];
+};
@@ -0,0 +1,20 @@
+/**
+ * Offer text content to the user as a file download
+ */
+export const downloadTextFile = (filename: string, content: string, mimeType: string = 'application/json'): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Date stamp for exported file names, e.g. 2025-01-31
+ */
+export const getFileDateStamp = (date: Date = new Date()): string => {
+  return date.toISOString().slice(0, 10);
+};
@@ -0,0 +1,163 @@
+import type { ExamResult, MigrationReport } from '../types/exam.types';
+import { EXAM_CONSTANTS, RESULT_SCHEMA_VERSION } from '../types/exam.types';
+
+type StoredRecord = Record<string, unknown>;
+
+/**
+ * Thrown when a stored record cannot be upgraded, with a human-readable reason
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+interface Migration {
+  /** Schema version the record is at after this step */
+  version: number;
+  migrate: (record: StoredRecord) => StoredRecord;
+}
+
+/**
+ * Ordered upgrade steps, each taking a record from `version - 1` to `version`
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // Records saved before schema versioning, when examMode and selectedModule were optional
+    version: 1,
+    migrate: record => {
+      if (typeof record.score !== 'number' || typeof record.total !== 'number') {
+        throw new MigrationError('missing a numeric score or total');
+      }
+      if (typeof record.timestamp !== 'string' || isNaN(new Date(record.timestamp).getTime())) {
+        throw new MigrationError('missing a valid timestamp');
+      }
+
+      return {
+        ...record,
+        percentage: typeof record.percentage === 'number'
+          ? record.percentage
+          : record.total > 0 ? Math.round((record.score / record.total) * 100) : 0,
+        moduleScores: record.moduleScores && typeof record.moduleScores === 'object' ? record.moduleScores : {},
+        questions: Array.isArray(record.questions) ? record.questions : [],
+        // Only full exams existed before exam modes were recorded
+        examMode: typeof record.examMode === 'string' ? record.examMode : 'full',
+        selectedModule: typeof record.selectedModule === 'number' ? record.selectedModule : null
+      };
+    }
+  },
+  {
+    // Records saved before the pass mark was stored, when it was always the standard one
+    version: 2,
+    migrate: record => ({
+      ...record,
+      passingPercentage: typeof record.passingPercentage === 'number'
+        ? record.passingPercentage
+        : EXAM_CONSTANTS.PASSING_PERCENTAGE
+    })
+  }
+];
+
+const isIndexList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(i => Number.isInteger(i));
+
+/**
+ * Whether a stored question entry has the fields shown in reviews and read by the analytics
+ */
+const isValidQuestionResult = (raw: unknown): boolean => {
+  const question = raw as StoredRecord | null;
+  return Boolean(question) &&
+    typeof question === 'object' &&
+    typeof question!.id === 'number' &&
+    isIndexList(question!.userAnswer) &&
+    isIndexList(question!.correctAnswer) &&
+    Array.isArray(question!.options) &&
+    (question!.options as unknown[]).every(option => typeof option === 'string');
+};
+
+/**
+ * Check that a record at the current schema version has the fields the app reads without guarding
+ * Records claiming the current version skip every migration step, so this is their only check
+ */
+const validateResultShape = (record: StoredRecord): void => {
+  const numericFields = ['score', 'total', 'percentage', 'passingPercentage'];
+  const missing = numericFields.filter(field => typeof record[field] !== 'number' || isNaN(record[field] as number));
+  if (missing.length > 0) {
+    throw new MigrationError(`missing a numeric ${missing.join(', ')}`);
+  }
+  if (typeof record.timestamp !== 'string' || isNaN(new Date(record.timestamp).getTime())) {
+    throw new MigrationError('missing a valid timestamp');
+  }
+  if (!Array.isArray(record.questions)) {
+    throw new MigrationError('missing its list of questions');
+  }
+  if (!record.moduleScores || typeof record.moduleScores !== 'object' || Array.isArray(record.moduleScores)) {
+    throw new MigrationError('missing its module scores');
+  }
+
+  // History analytics read every question entry, so one malformed entry makes the record unusable
+  const badQuestion = record.questions.findIndex(question => !isValidQuestionResult(question));
+  if (badQuestion !== -1) {
+    throw new MigrationError(`missing the id, answers or options of question ${badQuestion + 1}`);
+  }
+};
+
+/**
+ * Upgrade a single stored record to the current schema version
+ * Throws MigrationError if the record is unusable
+ */
+export const migrateResult = (raw: unknown): ExamResult => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new MigrationError('not an object');
+  }
+
+  let record = raw as StoredRecord;
+  const version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+
+  if (version > RESULT_SCHEMA_VERSION) {
+    throw new MigrationError(`saved by a newer version of the app (schema ${version})`);
+  }
+
+  MIGRATIONS
+    .filter(migration => migration.version > version)
+    .forEach(migration => {
+      record = { ...migration.migrate(record), schemaVersion: migration.version };
+    });
+
+  validateResultShape(record);
+  return record as unknown as ExamResult;
+};
+
+/**
+ * Upgrade a list of stored records, collecting the ones that cannot be migrated instead of throwing
+ */
+export const migrateResults = (raw: unknown[]): {
+  results: ExamResult[];
+  failedRecords: unknown[];
+  report: MigrationReport;
+} => {
+  const results: ExamResult[] = [];
+  const failedRecords: unknown[] = [];
+  const report: MigrationReport = { migrated: 0, failed: [] };
+
+  raw.forEach((record, index) => {
+    try {
+      const migrated = migrateResult(record);
+      if ((record as StoredRecord).schemaVersion !== migrated.schemaVersion) {
+        report.migrated++;
+      }
+      results.push(migrated);
+    } catch (error) {
+      const timestamp = (record as StoredRecord | null)?.timestamp;
+      failedRecords.push(record);
+      report.failed.push({
+        index,
+        timestamp: typeof timestamp === 'string' ? timestamp : undefined,
+        reason: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  return { results, failedRecords, report };
+};
@@ -0,0 +1,110 @@
+import type { ExamBlueprint, ExamPreset, Question } from '../types/exam.types';
+import { DEFAULT_EXAM_BLUEPRINT, MODULE_NAMES } from '../types/exam.types';
+
+/**
+ * Generate an id for a new preset
+ */
+export const createPresetId = (): string => Date.now().toString(36);
+
+/**
+ * Scale a blueprint to a preset's modules and question count
+ * Module weights come from the base blueprint; leftover questions go to the modules
+ * with the largest rounding remainders so the counts add up exactly
+ */
+export const getPresetBlueprint = (preset: ExamPreset, baseBlueprint: ExamBlueprint): ExamBlueprint => {
+  const weights = preset.modules.map(module => ({
+    module,
+    weight: baseBlueprint.moduleCounts[module] ?? 0
+  }));
+  const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
+
+  // Fall back to an even split if none of the modules carry any weight
+  const shares = weights.map(({ module, weight }) => {
+    const exact = totalWeight > 0
+      ? (weight / totalWeight) * preset.questionCount
+      : preset.questionCount / weights.length;
+    return { module, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = preset.questionCount - shares.reduce((sum, s) => sum + s.count, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(share => {
+      if (leftover > 0) {
+        share.count++;
+        leftover--;
+      }
+    });
+
+  return {
+    moduleCounts: Object.fromEntries(shares.map(s => [s.module, s.count])),
+    multipleRatio: baseBlueprint.multipleRatio
+  };
+};
+
+/**
+ * Module quiz duration under a preset, at the same time per question as its full exam
+ */
+export const getPresetModuleDuration = (preset: ExamPreset): number =>
+  Math.round((preset.moduleQuestionCount * preset.durationMinutes * 60) / preset.questionCount);
+
+/**
+ * Check a preset for problems, returning user-facing messages (empty if it is valid)
+ * Each module must have enough questions for its share of the full exam and for a module quiz,
+ * otherwise the exam would silently come out shorter than advertised
+ */
+export const validateExamPreset = (
+  preset: ExamPreset,
+  questionBank: Question[],
+  baseBlueprint: ExamBlueprint = DEFAULT_EXAM_BLUEPRINT
+): string[] => {
+  const errors: string[] = [];
+
+  if (!preset.name.trim()) {
+    errors.push('Give the preset a name.');
+  }
+  if (preset.modules.length === 0) {
+    errors.push('Select at least one module.');
+  }
+  if (preset.modules.some(module => MODULE_NAMES[module] === undefined)) {
+    errors.push('The preset includes a module that does not exist.');
+  }
+  if (!Number.isInteger(preset.questionCount) || preset.questionCount < 1) {
+    errors.push('The question count must be a whole number of at least 1.');
+  }
+  if (!Number.isInteger(preset.moduleQuestionCount) || preset.moduleQuestionCount < 1) {
+    errors.push('The module quiz size must be a whole number of at least 1.');
+  }
+  if (!(preset.durationMinutes > 0)) {
+    errors.push('The duration must be greater than 0 minutes.');
+  }
+  if (!(preset.passingPercentage >= 0 && preset.passingPercentage <= 100)) {
+    errors.push('The passing percentage must be between 0 and 100.');
+  }
+
+  const available = questionBank.filter(q => preset.modules.includes(q.module)).length;
+  if (preset.modules.length > 0 && preset.questionCount > available) {
+    errors.push(`The selected modules only have ${available} questions.`);
+  } else if (errors.length === 0) {
+    const moduleCounts = getPresetBlueprint(preset, baseBlueprint).moduleCounts;
+    preset.modules.forEach(module => {
+      const pool = questionBank.filter(q => q.module === module).length;
+      if (moduleCounts[module] > pool) {
+        errors.push(
+          `Module ${module} would need ${moduleCounts[module]} questions for its share of the exam, but only has ${pool}.`
+        );
+      }
+    });
+  }
+
+  if (errors.length === 0) {
+    preset.modules
+      .map(module => ({ module, pool: questionBank.filter(q => q.module === module).length }))
+      .filter(({ pool }) => preset.moduleQuestionCount > pool)
+      .forEach(({ module, pool }) => {
+        errors.push(`Module ${module} only has ${pool} questions, fewer than the module quiz size.`);
+      });
+  }
+
+  return errors;
+};
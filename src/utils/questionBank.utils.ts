@@ -0,0 +1,188 @@
+import type { Question } from '../types/exam.types';
+import { MODULE_NAMES, MODULE_TOPICS } from '../types/exam.types';
+
+/**
+ * A problem found in the question bank data, located by file and position
+ */
+export interface QuestionBankIssue {
+  source: string;
+  index: number;
+  id?: number;
+  message: string;
+}
+
+/**
+ * Thrown when the question bank data is invalid, listing every issue found
+ */
+export class QuestionBankError extends Error {
+  readonly issues: QuestionBankIssue[];
+
+  constructor(issues: QuestionBankIssue[]) {
+    super(`Invalid question bank:\n${issues.map(formatQuestionBankIssue).join('\n')}`);
+    this.name = 'QuestionBankError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * One-line description of an issue, e.g. "module-3.json #4 (id 87): correct index 5 is out of range"
+ */
+export const formatQuestionBankIssue = (issue: QuestionBankIssue): string => {
+  const location = issue.id === undefined ? `#${issue.index}` : `#${issue.index} (id ${issue.id})`;
+  return `${issue.source} ${location}: ${issue.message}`;
+};
+
+const isIndexList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(i => Number.isInteger(i));
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(s => typeof s === 'string');
+
+/**
+ * Check a single question record against the Question schema, returning user-facing messages
+ * (empty if it is valid). Rules that span questions, such as unique ids, are checked by the caller.
+ */
+export const validateQuestion = (raw: unknown): string[] => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['not an object'];
+  }
+
+  const q = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!Number.isInteger(q.id) || (q.id as number) < 1) {
+    errors.push('id must be a positive whole number');
+  }
+  if (q.type !== 'single' && q.type !== 'multiple') {
+    errors.push(`type must be "single" or "multiple", got ${JSON.stringify(q.type)}`);
+  }
+  if (typeof q.module !== 'number' || MODULE_NAMES[q.module] === undefined) {
+    errors.push(`module ${JSON.stringify(q.module)} is not in MODULE_NAMES`);
+  }
+  if (typeof q.question !== 'string' || !q.question.trim()) {
+    errors.push('question text is missing');
+  }
+  if (typeof q.explanation !== 'string') {
+    errors.push('explanation must be a string');
+  }
+  if (q.expectedOutput !== undefined) {
+    if (typeof q.expectedOutput !== 'string') {
+      errors.push('expectedOutput must be a string');
+    } else if (typeof q.question === 'string' && !q.question.includes('```cpp')) {
+      errors.push('expectedOutput is set but the question has no ```cpp snippet to run');
+    }
+  }
+
+  if (!isStringList(q.options) || q.options.length < 2) {
+    errors.push('options must be a list of at least 2 strings');
+  }
+  const optionCount = isStringList(q.options) ? q.options.length : 0;
+
+  if (!isIndexList(q.correct) || q.correct.length === 0) {
+    errors.push('correct must be a non-empty list of option indices');
+  } else {
+    q.correct
+      .filter(i => i < 0 || i >= optionCount)
+      .forEach(i => errors.push(`correct index ${i} is out of range for ${optionCount} options`));
+    if (new Set(q.correct).size !== q.correct.length) {
+      errors.push('correct lists the same option more than once');
+    }
+    if (q.type === 'single' && q.correct.length !== 1) {
+      errors.push(`a "single" question must have exactly 1 correct option, found ${q.correct.length}`);
+    }
+    if (q.type === 'multiple' && q.correct.length < 2) {
+      errors.push(`a "multiple" question must have at least 2 correct options, found ${q.correct.length}`);
+    }
+  }
+
+  if (q.pinnedOptions !== undefined) {
+    if (!isIndexList(q.pinnedOptions)) {
+      errors.push('pinnedOptions must be a list of option indices');
+    } else {
+      q.pinnedOptions
+        .filter(i => i < 0 || i >= optionCount)
+        .forEach(i => errors.push(`pinned option ${i} is out of range for ${optionCount} options`));
+    }
+  }
+
+  if (q.topics !== undefined) {
+    if (!isStringList(q.topics)) {
+      errors.push('topics must be a list of strings');
+    } else if (typeof q.module === 'number' && MODULE_TOPICS[q.module]) {
+      q.topics
+        .filter(topic => !MODULE_TOPICS[q.module as number].includes(topic))
+        .forEach(topic => errors.push(`topic "${topic}" is not in MODULE_TOPICS for module ${q.module}`));
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validate the per-module question files, keyed by file name
+ * A file must hold a list of questions, all belonging to the module in its name (module-<n>.json)
+ */
+export const validateQuestionBank = (files: Record<string, unknown>): {
+  questions: Question[];
+  issues: QuestionBankIssue[];
+} => {
+  const questions: Question[] = [];
+  const issues: QuestionBankIssue[] = [];
+  const seenIds = new Map<number, string>();
+
+  Object.entries(files)
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .forEach(([path, data]) => {
+      const source = path.split('/').pop() ?? path;
+      const fileModule = /module-(\d+)\.json$/.exec(source)?.[1];
+
+      if (!Array.isArray(data)) {
+        issues.push({ source, index: 0, message: 'file must contain a list of questions' });
+        return;
+      }
+
+      data.forEach((raw, index) => {
+        const id = Number.isInteger(raw?.id) ? raw.id as number : undefined;
+        const messages = validateQuestion(raw);
+
+        if (fileModule !== undefined && raw?.module !== undefined && raw.module !== parseInt(fileModule, 10)) {
+          messages.push(`module ${raw.module} question is filed under module ${fileModule}`);
+        }
+        if (id !== undefined) {
+          if (seenIds.has(id)) {
+            messages.push(`duplicate id, also used in ${seenIds.get(id)}`);
+          } else {
+            seenIds.set(id, source);
+          }
+        }
+
+        messages.forEach(message => issues.push({ source, index, id, message }));
+        if (messages.length === 0) {
+          questions.push(raw as Question);
+        }
+      });
+    });
+
+  return { questions, issues };
+};
+
+/**
+ * Load the question bank from its per-module files, throwing QuestionBankError if any question is invalid
+ */
+export const loadQuestionBank = (files: Record<string, unknown>): Question[] => {
+  const { questions, issues } = validateQuestionBank(files);
+  if (issues.length > 0) {
+    throw new QuestionBankError(issues);
+  }
+  return questions;
+};
+
+/**
+ * Serialize a module's questions the way the files in src/data/questions are laid out:
+ * two-space JSON with the `correct` and `pinnedOptions` index lists kept on one line
+ */
+export const formatQuestionFile = (questions: Question[]): string =>
+  JSON.stringify(questions, null, 2).replace(
+    /("(?:correct|pinnedOptions)": )\[([^\]]*)\]/g,
+    (_, key: string, items: string) => `${key}[${items.split(',').map(item => item.trim()).filter(Boolean).join(', ')}]`
+  ) + '\n';
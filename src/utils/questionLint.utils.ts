@@ -0,0 +1,192 @@
+import type { Question } from '../types/exam.types';
+
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * A problem a lint rule found in one question
+ */
+export interface LintFinding {
+  id: number;
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+interface LintRule {
+  name: string;
+  severity: LintSeverity;
+  /** Messages for each problem found in the question; the whole bank is passed for cross-question rules */
+  check: (question: Question, questionBank: Question[]) => string[];
+}
+
+/** Dice similarity above which two questions are reported as near-duplicates */
+const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+/** Explanations shorter than this are unlikely to explain anything */
+const MIN_EXPLANATION_LENGTH = 20;
+
+const normalizeText = (text: string): string =>
+  text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Character bigrams of a normalized text, for Dice similarity
+ */
+const getBigrams = (text: string): Map<string, number> => {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+/**
+ * Sørensen-Dice coefficient of two texts (1 = identical bigrams, 0 = none shared)
+ */
+export const getTextSimilarity = (a: string, b: string): number => {
+  const first = getBigrams(normalizeText(a));
+  const second = getBigrams(normalizeText(b));
+  const total = [...first.values(), ...second.values()].reduce((sum, n) => sum + n, 0);
+  if (total === 0) return 1;
+
+  let shared = 0;
+  first.forEach((count, bigram) => {
+    shared += Math.min(count, second.get(bigram) ?? 0);
+  });
+  return (2 * shared) / total;
+};
+
+/**
+ * Every markdown field of a question with a label for messages
+ */
+const getMarkdownFields = (question: Question): { label: string; text: string }[] => [
+  { label: 'question', text: question.question },
+  ...question.options.map((text, i) => ({ label: `option ${i}`, text })),
+  { label: 'explanation', text: question.explanation }
+];
+
+/**
+ * Question text together with its options, in a fixed order
+ * Stems like "Which statements about `std::merge` are correct?" are reused with different
+ * options, so the stem alone doesn't identify a question
+ */
+const getComparableText = (question: Question): string =>
+  normalizeText([question.question, ...[...question.options].sort()].join('\n'));
+
+// Comparable texts are cached per bank rather than recomputed for every pair of questions
+const comparableCache = new WeakMap<Question[], Map<number, string>>();
+
+const getComparableTexts = (questionBank: Question[]): Map<number, string> => {
+  let texts = comparableCache.get(questionBank);
+  if (!texts) {
+    texts = new Map(questionBank.map(q => [q.id, getComparableText(q)]));
+    comparableCache.set(questionBank, texts);
+  }
+  return texts;
+};
+
+const RULES: LintRule[] = [
+  {
+    name: 'duplicate-options',
+    severity: 'error',
+    check: question => {
+      const seen = new Map<string, number>();
+      const messages: string[] = [];
+      // Compared exactly, since whitespace matters in output options like "   42" vs "42"
+      question.options.forEach((option, i) => {
+        if (seen.has(option)) {
+          messages.push(`options ${seen.get(option)} and ${i} are identical`);
+        } else {
+          seen.set(option, i);
+        }
+      });
+      return messages;
+    }
+  },
+  {
+    name: 'duplicate-question',
+    severity: 'error',
+    check: (question, questionBank) => {
+      const texts = getComparableTexts(questionBank);
+      const text = texts.get(question.id);
+      return questionBank
+        .filter(other => other.id !== question.id && texts.get(other.id) === text)
+        .map(other => `same question and options as id ${other.id}`);
+    }
+  },
+  {
+    name: 'near-duplicate-question',
+    severity: 'warning',
+    check: (question, questionBank) => {
+      const texts = getComparableTexts(questionBank);
+      const text = texts.get(question.id)!;
+      return questionBank
+        .filter(other => other.id !== question.id && texts.get(other.id) !== text)
+        .map(other => ({ other, similarity: getTextSimilarity(text, texts.get(other.id)!) }))
+        .filter(({ similarity }) => similarity >= NEAR_DUPLICATE_THRESHOLD)
+        .map(({ other, similarity }) =>
+          `question and options are ${Math.round(similarity * 100)}% similar to id ${other.id}`);
+    }
+  },
+  {
+    name: 'unbalanced-fence',
+    severity: 'error',
+    check: question => getMarkdownFields(question)
+      .filter(({ text }) => (text.match(/```/g) ?? []).length % 2 !== 0)
+      .map(({ label }) => `${label} has an unclosed \`\`\` code fence`)
+  },
+  {
+    name: 'fence-language',
+    severity: 'error',
+    // QuestionCard only highlights fenced blocks that name a language; others render as inline code
+    check: question => getMarkdownFields(question).flatMap(({ label, text }) => {
+      const openings = [...text.matchAll(/```(\w*)/g)].filter((_, i) => i % 2 === 0);
+      return openings
+        .filter(match => match[1] === '')
+        .map(() => `${label} has a code fence without a language, use \`\`\`cpp`);
+    })
+  },
+  {
+    name: 'missing-explanation',
+    severity: 'error',
+    check: question => question.explanation.trim() === '' ? ['explanation is empty'] : []
+  },
+  {
+    name: 'short-explanation',
+    severity: 'warning',
+    check: question => {
+      const length = question.explanation.trim().length;
+      return length > 0 && length < MIN_EXPLANATION_LENGTH
+        ? [`explanation is only ${length} characters`]
+        : [];
+    }
+  },
+  {
+    name: 'missing-topics',
+    severity: 'error',
+    check: question => question.topics && question.topics.length > 0
+      ? []
+      : ['no topics, so the question is left out of topic drills']
+  }
+];
+
+/**
+ * Run every lint rule over one structurally valid question, comparing it with the rest of the bank
+ * The question must be part of questionBank, so cross-question rules can tell it from the others
+ */
+export const lintQuestion = (question: Question, questionBank: Question[]): LintFinding[] =>
+  RULES.flatMap(rule => rule.check(question, questionBank).map(message => ({
+    id: question.id,
+    rule: rule.name,
+    severity: rule.severity,
+    message
+  })));
+
+/**
+ * Run every lint rule over a structurally valid question bank
+ * Findings are ordered by question id, then by rule
+ */
+export const lintQuestionBank = (questionBank: Question[]): LintFinding[] =>
+  [...questionBank]
+    .sort((a, b) => a.id - b.id)
+    .flatMap(question => lintQuestion(question, questionBank));
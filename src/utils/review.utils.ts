@@ -0,0 +1,120 @@
+import type { ExamResult, Question, ReviewCard, ReviewDeck } from '../types/exam.types';
+import { hasInstantFeedback, isAnswerCorrect } from './exam.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// SM-2 response quality (0-5) for right and wrong answers
+const CORRECT_QUALITY = 4;
+const INCORRECT_QUALITY = 1;
+
+/**
+ * Reschedule a review card using the SM-2 algorithm
+ */
+export const scheduleReview = (
+  card: ReviewCard | undefined,
+  questionId: number,
+  isCorrect: boolean,
+  reviewedAt: Date
+): ReviewCard => {
+  const quality = isCorrect ? CORRECT_QUALITY : INCORRECT_QUALITY;
+  const previous = card ?? {
+    questionId,
+    easeFactor: INITIAL_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0
+  };
+
+  let repetitions: number;
+  let interval: number;
+
+  if (quality < 3) {
+    // Lapse - start the question over
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round(previous.interval * previous.easeFactor);
+    }
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previous.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    questionId,
+    easeFactor,
+    interval,
+    repetitions,
+    dueDate: new Date(reviewedAt.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewed: reviewedAt.toISOString()
+  };
+};
+
+/**
+ * Fold a submitted exam into the review deck
+ * Missed or unanswered questions join the deck; questions already in it are rescheduled either way.
+ * In instant-feedback modes a session can end early, so only questions that were answered or
+ * checked count, and a card is never rescheduled from a question that was never on screen
+ */
+export const updateReviewDeck = (
+  deck: ReviewDeck,
+  result: ExamResult,
+  checkedQuestionIds: Iterable<number> = []
+): ReviewDeck => {
+  const reviewedAt = new Date(result.timestamp);
+  const newDeck: ReviewDeck = { ...deck };
+  const checked = new Set(checkedQuestionIds);
+  const instantFeedback = hasInstantFeedback(result.examMode);
+
+  result.questions.forEach(question => {
+    const isAnswered = question.userAnswer.length > 0;
+    if (instantFeedback && !isAnswered && !checked.has(question.id)) return;
+
+    const isCorrect = isAnswerCorrect(question.userAnswer, question.correctAnswer);
+    const card = deck[question.id];
+
+    if (!card && isCorrect) return;
+    // An unanswered question with no recorded time was never looked at (missing time means an older result)
+    if (card && !isAnswered && question.timeSpentSeconds === 0) return;
+
+    newDeck[question.id] = scheduleReview(card, question.id, isCorrect, reviewedAt);
+  });
+
+  return newDeck;
+};
+
+/**
+ * Ids of questions due for review, most overdue first
+ */
+export const getDueQuestionIds = (deck: ReviewDeck, now: Date = new Date()): number[] => {
+  return Object.values(deck)
+    .filter(card => new Date(card.dueDate).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+    .map(card => card.questionId);
+};
+
+/**
+ * Select the questions for a review session from the due cards
+ */
+export const selectDueQuestions = (questionBank: Question[], deck: ReviewDeck, count: number): Question[] => {
+  const questionsById = new Map(questionBank.map(q => [q.id, q]));
+  return getDueQuestionIds(deck)
+    .map(id => questionsById.get(id))
+    .filter((q): q is Question => q !== undefined)
+    .slice(0, count);
+};
+
+/**
+ * Number of due cards whose question is still in the bank, i.e. how many a review session can serve
+ */
+export const getDueQuestionCount = (questionBank: Question[], deck: ReviewDeck): number =>
+  selectDueQuestions(questionBank, deck, Infinity).length;
@@ -0,0 +1,46 @@
+import type { ScoringStrategy } from '../types/exam.types';
+
+type ScoringFunction = (userAnswer: number[], correctAnswer: number[]) => number;
+
+const countHits = (userAnswer: number[], correctAnswer: number[]): number =>
+  userAnswer.filter(ans => correctAnswer.includes(ans)).length;
+
+/**
+ * Points (0-1) awarded for an answer under each scoring strategy
+ * Single-choice questions score the same under all of them
+ */
+const SCORING_FUNCTIONS: Record<ScoringStrategy, ScoringFunction> = {
+  strict: (userAnswer, correctAnswer) =>
+    userAnswer.length === correctAnswer.length && countHits(userAnswer, correctAnswer) === correctAnswer.length
+      ? 1
+      : 0,
+  proportional: (userAnswer, correctAnswer) =>
+    correctAnswer.length === 0 ? 0 : countHits(userAnswer, correctAnswer) / correctAnswer.length,
+  'penalize-wrong': (userAnswer, correctAnswer) => {
+    if (correctAnswer.length === 0) return 0;
+    const hits = countHits(userAnswer, correctAnswer);
+    const wrong = userAnswer.length - hits;
+    return Math.max(0, (hits - wrong) / correctAnswer.length);
+  }
+};
+
+/**
+ * Points (0-1) earned by an answer
+ */
+export const scoreAnswer = (
+  userAnswer: number[],
+  correctAnswer: number[],
+  strategy: ScoringStrategy = 'strict'
+): number => {
+  return SCORING_FUNCTIONS[strategy](userAnswer, correctAnswer);
+};
+
+/**
+ * Round a points total to two decimals so repeated fractions don't accumulate float noise
+ */
+export const roundPoints = (points: number): number => Math.round(points * 100) / 100;
+
+/**
+ * Format a points total for display, without trailing zeros (e.g. 12, 12.5, 12.33)
+ */
+export const formatPoints = (points: number): string => String(roundPoints(points));
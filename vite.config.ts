@@ -1,8 +1,36 @@
-import { defineConfig } from 'vite'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { formatQuestionBankIssue, validateQuestionBank } from './src/utils/questionBank.utils.ts'
+
+const QUESTIONS_DIR = join(import.meta.dirname, 'src/data/questions')
+
+// Validate the question bank up front so invalid data fails the build instead of the app
+const questionBankValidation = (): Plugin => ({
+  name: 'question-bank-validation',
+  buildStart() {
+    const files: Record<string, unknown> = {}
+    readdirSync(QUESTIONS_DIR)
+      .filter(file => /^module-\d+\.json$/.test(file))
+      .forEach(file => {
+        this.addWatchFile(join(QUESTIONS_DIR, file))
+        try {
+          files[file] = JSON.parse(readFileSync(join(QUESTIONS_DIR, file), 'utf8'))
+        } catch (error) {
+          this.error(`${file}: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      })
+
+    const { issues } = validateQuestionBank(files)
+    if (issues.length > 0) {
+      this.error(`Invalid question bank:\n${issues.map(formatQuestionBankIssue).join('\n')}`)
+    }
+  },
+})
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), questionBankValidation()],
   base: "/cpp-mock-exam/",
 });